@@ -0,0 +1,75 @@
+import { createHash } from "node:crypto"
+import type { IncomingMessage } from "node:http"
+import { isIPv4, isIPv6 } from "node:net"
+
+import type { SessionBinding } from "./types"
+
+function hash(value: string) {
+  return createHash("sha256").update(value).digest("base64url").slice(0, 22)
+}
+
+function ipv4Bits(address: string): bigint {
+  return address.split(".").reduce((bits, octet) => (bits << 8n) | BigInt(octet), 0n)
+}
+
+function ipv6Bits(address: string): bigint {
+  const [withoutZone] = address.split("%")
+  const groupsOf = (part: string | undefined) =>
+    part == null || part === ""
+      ? []
+      : part.split(":").flatMap((group) => {
+          if (!group.includes(".")) return [group]
+          const bits = ipv4Bits(group)
+          return [(bits >> 16n).toString(16), (bits & 0xffffn).toString(16)]
+        })
+  const [head, tail] = withoutZone.split("::").map(groupsOf)
+  const groups = [...head, ...Array(8 - head.length - (tail?.length ?? 0)).fill("0"), ...(tail ?? [])]
+  return groups.reduce((bits, group) => (bits << 16n) | BigInt(`0x${group}`), 0n)
+}
+
+function mask(bits: bigint, length: number, prefix: number): bigint {
+  const hostBits = BigInt(length - Math.max(0, Math.min(prefix, length)))
+  return (bits >> hostBits) << hostBits
+}
+
+/**
+ * Gets the subnet of `address` with the given prefix lengths, e.g. `192.168.1.0/24` for `192.168.1.7` and a
+ * 24-bit IPv4 prefix. IPv4-mapped IPv6 addresses are treated as IPv4 addresses.
+ */
+export function subnetOf(address: string, ipv4Prefix: number, ipv6Prefix: number): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1] ?? address
+  if (isIPv4(mapped)) {
+    const bits = mask(ipv4Bits(mapped), 32, ipv4Prefix)
+    return `${[24n, 16n, 8n, 0n].map((shift) => (bits >> shift) & 0xffn).join(".")}/${ipv4Prefix}`
+  }
+  if (isIPv6(address)) return `${mask(ipv6Bits(address), 128, ipv6Prefix).toString(16)}/${ipv6Prefix}`
+  return address
+}
+
+/**
+ * Derives the hashed values of the client attributes selected by `binding` from `req`.
+ */
+export function fingerprint<Req extends IncomingMessage>(
+  req: Req,
+  binding: Pick<SessionBinding<Req>, "userAgent" | "ip" | "values">,
+): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  if (binding.userAgent) attributes.userAgent = hash(req.headers["user-agent"] ?? "")
+  if (binding.ip) {
+    const { ipv4Prefix = 32, ipv6Prefix = 128 } = binding.ip === true ? {} : binding.ip
+    const address = (req as { ip?: string | undefined }).ip ?? req.socket.remoteAddress ?? ""
+    attributes.ip = hash(subnetOf(address, ipv4Prefix, ipv6Prefix))
+  }
+  for (const [name, derive] of Object.entries(binding.values ?? {})) {
+    attributes[name] = hash(derive(req) ?? "")
+  }
+  return attributes
+}
+
+/**
+ * Gets the names of the attributes whose value differs between a session's recorded fingerprint and the current one.
+ * Attributes which were not recorded are not compared.
+ */
+export function mismatchedAttributes(recorded: Record<string, string>, current: Record<string, string>): string[] {
+  return Object.keys(current).filter((name) => recorded[name] != null && recorded[name] !== current[name])
+}
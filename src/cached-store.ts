@@ -0,0 +1,187 @@
+import { defaultSerializer } from "./serializer"
+import type { IndexedSessionStore, Serializer, SessionData, SessionStore } from "./types"
+
+export type CachedStoreOptions = {
+  /**
+   * The maximum number of session records to cache. When exceeded, the least recently used records are evicted.
+   * @default 1000
+   */
+  maxEntries?: number | undefined
+  /**
+   * Time **(in seconds)** for which session records are cached.
+   * @default 5
+   */
+  ttl?: number | undefined
+  /**
+   * Serializer used to copy cached session records, so that callers never share a record.
+   * @default defaultSerializer
+   */
+  serializer?: Serializer | undefined
+}
+
+type CacheEntry = {
+  serialized: string
+  expiresAt: number
+}
+
+type Generation = {
+  /** Incremented when a write of the record starts and when it ends */
+  generation: number
+  /** The number of reads and writes of the record in flight */
+  active: number
+}
+
+/**
+ * Session store which wraps another session store with an in-process LRU cache.
+ * Writes go through to the wrapped store; concurrent reads of the same uncached record share one read of the
+ * wrapped store.
+ */
+export default class CachedStore implements SessionStore {
+  store: SessionStore
+  cache: Map<string, CacheEntry>
+  maxEntries: number
+  ttl: number
+  serializer: Serializer
+  private pending: Map<string, Promise<string | null>>
+  private generations: Map<string, Generation>
+
+  touch?: SessionStore["touch"]
+  setIfVersion?: SessionStore["setIfVersion"]
+  patch?: SessionStore["patch"]
+  prune?: SessionStore["prune"]
+  listByOwner?: IndexedSessionStore["listByOwner"]
+  destroyByOwner?: IndexedSessionStore["destroyByOwner"]
+
+  constructor(store: SessionStore, options: CachedStoreOptions = {}) {
+    this.store = store
+    this.cache = new Map()
+    this.pending = new Map()
+    this.generations = new Map()
+    this.maxEntries = options.maxEntries ?? 1000
+    this.ttl = options.ttl ?? 5
+    this.serializer = options.serializer ?? defaultSerializer
+
+    // Expose the optional capabilities of the wrapped store
+    const { touch, setIfVersion, patch, prune, listByOwner, destroyByOwner } = store as Partial<IndexedSessionStore>
+    if (touch != null) {
+      // Only the wrapped store holds the touched record, so the cached record is discarded
+      this.touch = async (sid, sess) => await this.writing(sid, () => touch.call(store, sid, sess))
+    }
+    if (setIfVersion != null) {
+      this.setIfVersion = async (sid, sess, expectedVersion) => {
+        const written = await this.writing(sid, () => setIfVersion.call(store, sid, sess, expectedVersion))
+        if (written) this.write(sid, sess)
+        return written
+      }
+    }
+    if (patch != null) {
+      // Only the wrapped store holds the patched record, so the cached record is discarded
+      this.patch = async (sid, changes) => await this.writing(sid, () => patch.call(store, sid, changes))
+    }
+    if (prune != null) {
+      this.prune = async () => await prune.call(store)
+    }
+    if (listByOwner != null && destroyByOwner != null) {
+      this.listByOwner = async (owner) => await listByOwner.call(store, owner)
+      this.destroyByOwner = async (owner) => {
+        this.cache.clear()
+        this.pending.clear()
+        for (const entry of this.generations.values()) entry.generation++
+        return await destroyByOwner.call(store, owner)
+      }
+    }
+  }
+
+  private write(sid: string, sess: SessionData) {
+    this.cache.delete(sid)
+    this.cache.set(sid, { serialized: this.serializer.serialize(sess), expiresAt: Date.now() + this.ttl * 1000 })
+    for (const lruSid of this.cache.keys()) {
+      if (this.cache.size <= this.maxEntries) break
+      this.cache.delete(lruSid)
+    }
+  }
+
+  private invalidate(sid: string) {
+    this.cache.delete(sid)
+    this.pending.delete(sid)
+  }
+
+  private track(sid: string): Generation {
+    let entry = this.generations.get(sid)
+    if (entry == null) {
+      entry = { generation: 0, active: 0 }
+      this.generations.set(sid, entry)
+    }
+    entry.active++
+    return entry
+  }
+
+  private release(sid: string, entry: Generation) {
+    entry.active--
+    if (entry.active === 0 && this.generations.get(sid) === entry) this.generations.delete(sid)
+  }
+
+  // Reads which start before or during `write` see the generation change, and so do not cache what they read
+  private async writing<R>(sid: string, write: () => Promise<R>): Promise<R> {
+    const entry = this.track(sid)
+    entry.generation++
+    this.invalidate(sid)
+    try {
+      return await write()
+    } finally {
+      entry.generation++
+      this.invalidate(sid)
+      this.release(sid, entry)
+    }
+  }
+
+  private read(sid: string): Promise<string | null> {
+    const entry = this.cache.get(sid)
+    if (entry != null && entry.expiresAt > Date.now()) {
+      this.cache.delete(sid)
+      this.cache.set(sid, entry)
+      return Promise.resolve(entry.serialized)
+    }
+    this.cache.delete(sid)
+
+    const pending = this.pending.get(sid)
+    if (pending != null) return pending
+
+    const tracked = this.track(sid)
+    const { generation } = tracked
+    const request: Promise<string | null> = this.store
+      .get(sid)
+      .then((sess) => {
+        if (sess == null) return null
+        // Records written or destroyed since the read started must not be overwritten with stale data
+        if (tracked.generation === generation) this.write(sid, sess)
+        return this.serializer.serialize(sess)
+      })
+      .finally(() => {
+        if (this.pending.get(sid) === request) this.pending.delete(sid)
+        this.release(sid, tracked)
+      })
+    this.pending.set(sid, request)
+    return request
+  }
+
+  async get(sid: string): Promise<SessionData | null> {
+    const serialized = await this.read(sid)
+    if (serialized == null) return null
+    const session = this.serializer.deserialize(serialized)
+    if (session.cookie.expires && session.cookie.expires.getTime() <= Date.now()) {
+      this.invalidate(sid)
+      return null
+    }
+    return session
+  }
+
+  async set(sid: string, sess: SessionData) {
+    await this.writing(sid, () => this.store.set(sid, sess))
+    this.write(sid, sess)
+  }
+
+  async destroy(sid: string) {
+    await this.writing(sid, () => this.store.destroy(sid))
+  }
+}
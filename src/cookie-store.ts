@@ -0,0 +1,114 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto"
+
+import { defaultSerializer } from "./serializer"
+import type { Serializer, SessionData } from "./types"
+
+const algorithm = "aes-256-gcm"
+const ivLength = 12
+const authTagLength = 16
+
+export type CookieStoreOptions = {
+  /**
+   * Secrets used to derive encryption keys. Session data is encrypted using the first secret; decryption is
+   * attempted using each secret in order, so secrets can be rotated by prepending a new one.
+   */
+  keys: string | string[]
+  /**
+   * The maximum size **(in bytes)** of a single cookie's name and value. Sealed session data which does not fit in one
+   * cookie is split into several chunked cookies.
+   * @default 4096
+   */
+  maxCookieSize?: number | undefined
+  /**
+   * The maximum number of chunked cookies sealed session data may be split into.
+   * @default 4
+   */
+  maxChunks?: number | undefined
+  /**
+   * Serializer used to convert session records to and from strings.
+   * @default defaultSerializer
+   */
+  serializer?: Serializer | undefined
+}
+
+type SealedSession = {
+  id: string
+  data: SessionData
+}
+
+export function chunkName(name: string, index: number) {
+  return index === 0 ? name : `${name}.${index}`
+}
+
+/**
+ * Stateless session 'store' which keeps the whole session record in the session cookie, encrypted and authenticated
+ * with AES-256-GCM.
+ */
+export default class CookieStore {
+  keys: Buffer[]
+  maxCookieSize: number
+  maxChunks: number
+  serializer: Serializer
+
+  constructor(options: CookieStoreOptions) {
+    const secrets = Array.isArray(options.keys) ? options.keys : [options.keys]
+    if (secrets.length === 0) throw new TypeError("CookieStore requires at least one key")
+    this.keys = secrets.map((secret) => createHash("sha256").update(secret).digest())
+    this.maxCookieSize = options.maxCookieSize ?? 4096
+    this.maxChunks = options.maxChunks ?? 4
+    this.serializer = options.serializer ?? defaultSerializer
+  }
+
+  seal(id: string, data: SessionData): string {
+    const iv = randomBytes(ivLength)
+    const cipher = createCipheriv(algorithm, this.keys[0], iv, { authTagLength })
+    const plaintext = JSON.stringify([id, this.serializer.serialize(data)])
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()])
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64url")
+  }
+
+  unseal(sealed: string): SealedSession | null {
+    const payload = Buffer.from(sealed, "base64url")
+    if (payload.length <= ivLength + authTagLength) return null
+    const iv = payload.subarray(0, ivLength)
+    const authTag = payload.subarray(ivLength, ivLength + authTagLength)
+    const ciphertext = payload.subarray(ivLength + authTagLength)
+
+    for (const key of this.keys) {
+      let plaintext: string
+      try {
+        const decipher = createDecipheriv(algorithm, key, iv, { authTagLength })
+        decipher.setAuthTag(authTag)
+        plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8")
+      } catch (err) {
+        continue
+      }
+
+      const [id, serialized] = JSON.parse(plaintext) as [string, string]
+      const data = this.serializer.deserialize(serialized)
+      if (data.cookie.expires && data.cookie.expires.getTime() <= Date.now()) return null
+      return { id, data }
+    }
+    return null
+  }
+
+  /**
+   * Splits a sealed session into chunks which each fit within `maxCookieSize` when named using {@link chunkName}.
+   */
+  split(name: string, sealed: string): string[] {
+    const chunks: string[] = []
+    let offset = 0
+    while (offset < sealed.length) {
+      const size = this.maxCookieSize - chunkName(name, chunks.length).length - 1
+      if (size <= 0) throw new RangeError(`Cookie name "${name}" does not fit within the cookie size limit`)
+      chunks.push(sealed.slice(offset, offset + size))
+      offset += size
+    }
+    if (chunks.length > this.maxChunks) {
+      throw new RangeError(
+        `Session data is too large to be stored in cookies (${chunks.length} chunks required, limit is ${this.maxChunks})`,
+      )
+    }
+    return chunks
+  }
+}
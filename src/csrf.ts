@@ -0,0 +1,73 @@
+import { randomBytes } from "node:crypto"
+import type { IncomingMessage, ServerResponse } from "node:http"
+
+import { CsrfError } from "./errors"
+import { csrfKey } from "./keys"
+import { sign, unsign } from "./signature"
+import type { Session } from "./types"
+
+export type CsrfOptions<Req extends IncomingMessage = IncomingMessage> = {
+  /**
+   * Request methods which are not verified.
+   * @default ["GET", "HEAD", "OPTIONS"]
+   */
+  ignoreMethods?: string[] | undefined
+  /**
+   * Gets the CSRF token sent with a request.
+   * @default the `X-CSRF-Token` header, or the `_csrf` field of the parsed request body
+   */
+  getToken?: ((req: Req) => string | null | undefined) | undefined
+}
+
+function defaultGetToken(req: IncomingMessage): string | null | undefined {
+  const header = req.headers["x-csrf-token"]
+  if (typeof header === "string") return header
+  const body = (req as { body?: unknown }).body
+  if (body == null || typeof body !== "object") return null
+  const field = (body as Record<string, unknown>)._csrf
+  return typeof field === "string" ? field : null
+}
+
+/**
+ * Creates a CSRF token derived from `secret`. A random salt makes each token unique, so tokens do not leak the secret
+ * through compression side channels (BREACH).
+ */
+function createToken(secret: string): string {
+  return sign(randomBytes(12).toString("base64url"), secret)
+}
+
+function verifyToken(token: string, secret: string): boolean {
+  return unsign(token, [secret]) != null
+}
+
+/**
+ * Creates a handler which protects requests against CSRF using a secret kept in the session returned by `getSession`.
+ *
+ * The handler rejects requests using unsafe methods which do not carry a valid token with a {@link CsrfError}, and
+ * resolves to a new token to embed in forms or send in the `X-CSRF-Token` header.
+ */
+export default function csrf<
+  Req extends IncomingMessage = IncomingMessage,
+  Res extends ServerResponse = ServerResponse,
+  S extends Session = Session,
+>(getSession: (req: Req, res: Res) => Promise<S>, options: CsrfOptions<Req> = {}) {
+  const ignoreMethods = (options.ignoreMethods ?? ["GET", "HEAD", "OPTIONS"]).map((method) => method.toUpperCase())
+  const getToken = options.getToken ?? defaultGetToken
+
+  return async function csrfHandle(req: Req, res: Res): Promise<string> {
+    const session = await getSession(req, res)
+    let secret = session[csrfKey]
+
+    if (!ignoreMethods.includes(req.method?.toUpperCase() ?? "GET")) {
+      const token = getToken(req)
+      if (secret == null || token == null || !verifyToken(token, secret)) throw new CsrfError()
+    }
+
+    if (secret == null) {
+      secret = randomBytes(18).toString("base64url")
+      session[csrfKey] = secret
+      await session.commit()
+    }
+    return createToken(secret)
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Thrown by `session.commit()` when the session record was modified by another request since the session was loaded,
+ * and the conflict could not be resolved.
+ */
+export class SessionConflictError extends Error {
+  sessionId: string
+
+  constructor(sessionId: string) {
+    super(`Session record "${sessionId}" was modified concurrently`)
+    this.name = "SessionConflictError"
+    this.sessionId = sessionId
+  }
+}
+
+/**
+ * Thrown when the session store fails to complete an operation, e.g. by `ResilientStore` when an operation times out,
+ * or by `session()` when the session record cannot be read and `readFailure` is `"fail"`.
+ */
+export class SessionStoreError extends Error {
+  operation: string
+
+  constructor(operation: string, reason: string, options?: ErrorOptions) {
+    super(`Session store operation "${operation}" failed: ${reason}`, options)
+    this.name = "SessionStoreError"
+    this.operation = operation
+  }
+}
+
+/**
+ * Thrown by `csrf()` when a request using an unsafe method does not carry a valid CSRF token.
+ */
+export class CsrfError extends Error {
+  status = 403
+  statusCode = 403
+  expose = true
+
+  constructor(message = "Invalid CSRF token") {
+    super(message)
+    this.name = "CsrfError"
+  }
+}
@@ -0,0 +1,136 @@
+import { randomBytes } from "node:crypto"
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+
+import { defaultSerializer } from "./serializer"
+import type { Serializer, SessionData, SessionStore } from "./types"
+import { touchedRecord } from "./utils"
+
+const extension = ".json"
+
+export type FileStoreOptions = {
+  /**
+   * Lifetime **(in seconds)** of session records whose cookie has no expiry (browser-session cookies), measured from
+   * when they were last set or touched. Such records never expire if unset.
+   * @default undefined
+   */
+  ttl?: number | undefined
+  /**
+   * Serializer used to convert session records to and from strings.
+   * @default defaultSerializer
+   */
+  serializer?: Serializer | undefined
+}
+
+function isNotFound(err: unknown) {
+  return (err as NodeJS.ErrnoException | undefined)?.code === "ENOENT"
+}
+
+/**
+ * Session store which keeps each session record in its own file within a directory.
+ */
+export default class FileStore implements SessionStore {
+  directory: string
+  ttl: number | undefined
+  serializer: Serializer
+  private ready: Promise<unknown> | undefined
+
+  constructor(directory: string, options: FileStoreOptions = {}) {
+    this.directory = directory
+    this.ttl = options.ttl
+    this.serializer = options.serializer ?? defaultSerializer
+  }
+
+  /**
+   * Gets the path of the file in which the session record associated with `sid` is kept.
+   * Characters other than ASCII letters, digits, `_` and `-` are escaped, so the path cannot escape the directory.
+   */
+  path(sid: string): string {
+    const filename = sid.replace(/[^A-Za-z0-9_-]/g, (char) => `%${char.charCodeAt(0).toString(16).padStart(4, "0")}`)
+    return join(this.directory, `${filename}${extension}`)
+  }
+
+  private async read(path: string): Promise<SessionData | null> {
+    let serialized: string
+    try {
+      serialized = await readFile(path, "utf8")
+    } catch (err) {
+      if (isNotFound(err)) return null
+      throw err
+    }
+    return this.serializer.deserialize(serialized)
+  }
+
+  private async isExpired(path: string, session: SessionData): Promise<boolean> {
+    if (session.cookie.expires) return session.cookie.expires.getTime() <= Date.now()
+    if (this.ttl == null) return false
+    const { mtimeMs } = await stat(path)
+    return mtimeMs + this.ttl * 1000 <= Date.now()
+  }
+
+  async get(sid: string): Promise<SessionData | null> {
+    const path = this.path(sid)
+    const session = await this.read(path)
+    if (session == null) return null
+    if (await this.isExpired(path, session)) {
+      await this.destroy(sid)
+      return null
+    }
+    return session
+  }
+
+  async set(sid: string, sess: SessionData) {
+    this.ready ??= mkdir(this.directory, { recursive: true })
+    await this.ready
+
+    // Write to a temporary file first, so that readers never observe a partially written record
+    const path = this.path(sid)
+    const temporaryPath = `${path}.${randomBytes(8).toString("hex")}.tmp`
+    try {
+      await writeFile(temporaryPath, this.serializer.serialize(sess))
+      await rename(temporaryPath, path)
+    } catch (err) {
+      await rm(temporaryPath, { force: true })
+      throw err
+    }
+  }
+
+  async destroy(sid: string) {
+    await rm(this.path(sid), { force: true })
+  }
+
+  async touch(sid: string, sess: SessionData) {
+    const stored = await this.get(sid)
+    await this.set(sid, stored == null ? sess : touchedRecord(stored, sess))
+  }
+
+  /**
+   * Deletes all expired session records.
+   * @returns the number of deleted records
+   */
+  async prune(): Promise<number> {
+    let filenames: string[]
+    try {
+      filenames = await readdir(this.directory)
+    } catch (err) {
+      if (isNotFound(err)) return 0
+      throw err
+    }
+
+    let count = 0
+    for (const filename of filenames) {
+      if (!filename.endsWith(extension)) continue
+      const path = join(this.directory, filename)
+      try {
+        const session = await this.read(path)
+        if (session == null || !(await this.isExpired(path, session))) continue
+      } catch (err) {
+        if (isNotFound(err)) continue
+        throw err
+      }
+      await rm(path, { force: true })
+      count++
+    }
+    return count
+  }
+}
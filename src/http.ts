@@ -0,0 +1,152 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import { type SerializeOptions, parse, serialize } from "@otterhttp/cookie"
+
+/*
+ * Adapters which use otterhttp's request and response extensions when they are available, and fall back to the bare
+ * `node:http` APIs otherwise (e.g. with `node:http` servers or connect/express middleware).
+ */
+
+type LateHeaderAction<Res extends ServerResponse> = (res: Res) => void
+type CookieOptions = SerializeOptions & {
+  sign?: ((value: string) => string) | null | undefined
+  partitioned?: boolean | undefined
+  priority?: "low" | "medium" | "high" | undefined
+}
+
+/** The parts of otterhttp's `Request` cookies which are used */
+type OtterRequestCookie = {
+  readonly value: string | undefined
+  readonly signed: boolean
+  unsign(unsigner: (signedValue: string) => string): void
+}
+
+/** The parts of otterhttp's `Response` which are used */
+type OtterResponse = {
+  registerLateHeaderAction(id: symbol, action: (res: never) => void): void
+  cookie(name: string, value: string, options: CookieOptions): unknown
+}
+
+const parsedCookies = new WeakMap<IncomingMessage, Record<string, string>>()
+const lateHeaderActions = new WeakMap<ServerResponse, Map<symbol, LateHeaderAction<ServerResponse>>>()
+
+function asOtterResponse(res: ServerResponse): OtterResponse | null {
+  const otterResponse = res as ServerResponse & Partial<OtterResponse>
+  return typeof otterResponse.registerLateHeaderAction === "function" ? (otterResponse as OtterResponse) : null
+}
+
+/**
+ * Reads the value of the cookie `name` sent with `req`, unsigning it using `unsign` if given.
+ * @returns the cookie's value, or `null` if the cookie was not sent or could not be unsigned
+ */
+export function readCookie(
+  req: IncomingMessage,
+  name: string,
+  unsign?: ((signedValue: string) => string) | null | undefined,
+): string | null {
+  let value: string | undefined
+  // otterhttp parses cookies into objects; other frameworks (e.g. `cookie-parser`) may parse them into strings
+  const cookies = (req as { cookies?: Record<string, OtterRequestCookie | string | undefined> }).cookies
+  const cookie = cookies?.[name]
+  if (cookie != null && typeof cookie === "object") {
+    if (unsign != null && !cookie.signed) cookie.unsign(unsign)
+    try {
+      return cookie.value ?? null
+    } catch (err) {
+      return null
+    }
+  }
+  if (cookies != null) {
+    value = cookie
+  } else {
+    let parsed = parsedCookies.get(req)
+    if (parsed == null) {
+      parsed = parse(req.headers.cookie ?? "")
+      parsedCookies.set(req, parsed)
+    }
+    value = parsed[name]
+  }
+
+  if (value == null || unsign == null) return value ?? null
+  try {
+    return unsign(value)
+  } catch (err) {
+    return null
+  }
+}
+
+/**
+ * Registers `action` to be called with `res` just before its headers are sent. Registering another action with the
+ * same `id` replaces the previous action.
+ */
+export function registerLateHeaderAction<Res extends ServerResponse>(
+  res: Res,
+  id: symbol,
+  action: LateHeaderAction<Res>,
+) {
+  const otterResponse = asOtterResponse(res)
+  if (otterResponse != null) {
+    otterResponse.registerLateHeaderAction(id, action)
+    return
+  }
+
+  let actions = lateHeaderActions.get(res)
+  if (actions == null) {
+    const registered = new Map<symbol, LateHeaderAction<ServerResponse>>()
+    lateHeaderActions.set(res, registered)
+    actions = registered
+
+    // Node calls `writeHead` before headers are sent, including when they are sent implicitly by `write` or `end`
+    const response: ServerResponse = res
+    const writeHead = response.writeHead
+    response.writeHead = function (this: ServerResponse, ...args: unknown[]) {
+      const pending = [...registered.values()]
+      registered.clear()
+      for (const pendingAction of pending) pendingAction(this)
+      return Reflect.apply(writeHead, this, args)
+    } as ServerResponse["writeHead"]
+  }
+  actions.set(id, action as LateHeaderAction<ServerResponse>)
+}
+
+/**
+ * Defers ending `res` until the promise returned by `action` settles, so that work such as saving the session
+ * finishes before the response does. `action` is called when `res.end()` is first called, and returns `null` if there
+ * is nothing to wait for. If the promise rejects, `res` is destroyed with the error instead of being ended, so that
+ * the client never receives a response which appears to have succeeded.
+ */
+export function registerBeforeEndAction<Res extends ServerResponse>(res: Res, action: () => Promise<void> | null) {
+  const response: ServerResponse = res
+  const end = response.end
+  let pending: Promise<void> | null = null
+  response.end = function (this: ServerResponse, ...args: unknown[]) {
+    pending ??= action()
+    if (pending == null) return Reflect.apply(end, this, args)
+    // Later calls are chained, so that they cannot end the response before the deferred call does
+    pending.then(
+      () => Reflect.apply(end, this, args),
+      (err) => this.destroy(err),
+    )
+    return this
+  } as ServerResponse["end"]
+}
+
+/**
+ * Appends a `Set-Cookie` header to `res`, signing `value` using `sign` if given.
+ */
+export function setCookie(
+  res: ServerResponse,
+  name: string,
+  value: string,
+  { sign, partitioned, priority, ...options }: CookieOptions,
+) {
+  const otterResponse = asOtterResponse(res)
+  // otterhttp's `res.cookie` does not support the Partitioned and Priority attributes
+  if (otterResponse != null && !partitioned && priority == null) {
+    otterResponse.cookie(name, value, { ...options, sign })
+    return
+  }
+  let header = serialize(name, sign == null ? value : sign(value), options)
+  if (partitioned) header += "; Partitioned"
+  if (priority != null) header += `; Priority=${priority.charAt(0).toUpperCase()}${priority.slice(1)}`
+  res.appendHeader("Set-Cookie", header)
+}
@@ -0,0 +1,32 @@
+/**
+ * Reserved session record keys used to persist session metadata alongside session data.
+ */
+export const createdAtKey = "__createdAt"
+export const lastActiveAtKey = "__lastActiveAt"
+export const touchedAtKey = "__touchedAt"
+export const flashKey = "__flash"
+export const ownerKey = "__owner"
+export const versionKey = "__version"
+export const csrfKey = "__csrf"
+export const schemaKey = "__schema"
+export const bindingKey = "__binding"
+
+export const metadataKeys: readonly string[] = [
+  createdAtKey,
+  lastActiveAtKey,
+  touchedAtKey,
+  ownerKey,
+  versionKey,
+  schemaKey,
+  bindingKey,
+]
+
+/**
+ * Keys which touching a session updates in its record, leaving the other keys as they are.
+ */
+export const lifetimeKeys: readonly string[] = ["cookie", lastActiveAtKey, touchedAtKey]
+
+/**
+ * Keys which are not part of the application's session data, so are not validated against `options.schema`.
+ */
+export const reservedKeys: readonly string[] = ["cookie", ...metadataKeys, flashKey, csrfKey]
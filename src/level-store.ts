@@ -0,0 +1,104 @@
+import type { AbstractLevel, AbstractSublevel } from "abstract-level"
+
+import { defaultSerializer } from "./serializer"
+import type { Serializer, SessionData, SessionStore } from "./types"
+import { touchedRecord } from "./utils"
+
+// biome-ignore lint/suspicious/noExplicitAny: any `abstract-level` database is supported, regardless of its format
+type Level = AbstractLevel<any, any, any>
+
+export type LevelStoreOptions = {
+  /**
+   * Name of the sublevel in which session records are kept, or `null` to keep them in the database itself.
+   * @default "sessions"
+   */
+  sublevel?: string | null | undefined
+  /**
+   * Lifetime **(in seconds)** of session records whose cookie has no expiry (browser-session cookies), measured from
+   * when they were last set or touched. Such records never expire if unset.
+   * @default undefined
+   */
+  ttl?: number | undefined
+  /**
+   * Serializer used to convert session records to and from strings.
+   * @default defaultSerializer
+   */
+  serializer?: Serializer | undefined
+}
+
+/**
+ * Session store which keeps session records in any `abstract-level` database, e.g. `memory-level` or `classic-level`.
+ */
+export default class LevelStore implements SessionStore {
+  db: Level
+  records: AbstractSublevel<Level, unknown, string, string>
+  expiries: AbstractSublevel<Level, unknown, string, number>
+  ttl: number | undefined
+  serializer: Serializer
+
+  constructor(db: Level, options: LevelStoreOptions = {}) {
+    const sublevel = options.sublevel === undefined ? "sessions" : options.sublevel
+    this.db = sublevel == null ? db : db.sublevel(sublevel)
+    this.records = this.db.sublevel<string, string>("records", { valueEncoding: "utf8" })
+    this.expiries = this.db.sublevel<string, number>("expiries", { valueEncoding: "json" })
+    this.ttl = options.ttl
+    this.serializer = options.serializer ?? defaultSerializer
+  }
+
+  private expiresAt(sess: SessionData): number | undefined {
+    if (sess.cookie.expires) return new Date(sess.cookie.expires).getTime()
+    if (this.ttl != null) return Date.now() + this.ttl * 1000
+    return undefined
+  }
+
+  async get(sid: string): Promise<SessionData | null> {
+    const [serialized, expiresAt] = await Promise.all([this.records.get(sid), this.expiries.get(sid)])
+    if (serialized == null) return null
+    if (expiresAt != null && expiresAt <= Date.now()) {
+      await this.destroy(sid)
+      return null
+    }
+    return this.serializer.deserialize(serialized)
+  }
+
+  async set(sid: string, sess: SessionData) {
+    const expiresAt = this.expiresAt(sess)
+    await this.db.batch([
+      { type: "put", sublevel: this.records, key: sid, value: this.serializer.serialize(sess) },
+      expiresAt == null
+        ? { type: "del", sublevel: this.expiries, key: sid }
+        : { type: "put", sublevel: this.expiries, key: sid, value: expiresAt },
+    ])
+  }
+
+  async destroy(sid: string) {
+    await this.db.batch([
+      { type: "del", sublevel: this.records, key: sid },
+      { type: "del", sublevel: this.expiries, key: sid },
+    ])
+  }
+
+  async touch(sid: string, sess: SessionData) {
+    const stored = await this.get(sid)
+    await this.set(sid, stored == null ? sess : touchedRecord(stored, sess))
+  }
+
+  /**
+   * Deletes all expired session records.
+   * @returns the number of deleted records
+   */
+  async prune(): Promise<number> {
+    const now = Date.now()
+    const expired: string[] = []
+    for await (const [sid, expiresAt] of this.expiries.iterator()) {
+      if (expiresAt <= now) expired.push(sid)
+    }
+    await this.db.batch(
+      expired.flatMap((sid) => [
+        { type: "del" as const, sublevel: this.records, key: sid },
+        { type: "del" as const, sublevel: this.expiries, key: sid },
+      ]),
+    )
+    return expired.length
+  }
+}
@@ -1,37 +1,191 @@
-import type { SessionData, SessionStore } from "./types"
+import { ownerKey, versionKey } from "./keys"
+import { defaultSerializer } from "./serializer"
+import type { IndexedSessionStore, Serializer, SessionChanges, SessionData, SessionStore } from "./types"
+import { touchedRecord } from "./utils"
 
-export default class MemoryStore implements SessionStore {
+export type MemoryStoreOptions = {
+  /**
+   * The maximum number of session records to keep. When exceeded, the least recently used records are evicted.
+   * @default Infinity
+   */
+  maxEntries?: number | undefined
+  /**
+   * Interval **(in seconds)** between sweeps which delete expired session records, or `0` to disable sweeping.
+   * @default 60
+   */
+  sweepInterval?: number | undefined
+  /**
+   * Lifetime **(in seconds)** of session records whose cookie has no expiry (browser-session cookies), measured from
+   * when they were last accessed.
+   * @default 86400
+   */
+  ttl?: number | undefined
+  /**
+   * Serializer used to convert session records to and from strings.
+   * @default defaultSerializer
+   */
+  serializer?: Serializer | undefined
+}
+
+export default class MemoryStore
+  implements IndexedSessionStore, Required<Pick<SessionStore, "setIfVersion" | "patch" | "prune">>, AsyncDisposable
+{
   store: Map<string, string>
+  expiries: Map<string, number>
+  owners: Map<string, Set<string>>
+  private sessionOwners: Map<string, string>
+  maxEntries: number
+  ttl: number
+  serializer: Serializer
+  private sweepTimer: ReturnType<typeof setInterval> | undefined
 
-  constructor() {
+  constructor(options: MemoryStoreOptions = {}) {
     this.store = new Map()
+    this.expiries = new Map()
+    this.owners = new Map()
+    this.sessionOwners = new Map()
+    this.maxEntries = options.maxEntries ?? Number.POSITIVE_INFINITY
+    this.ttl = options.ttl ?? 86400
+    this.serializer = options.serializer ?? defaultSerializer
+
+    const sweepInterval = options.sweepInterval ?? 60
+    if (sweepInterval > 0) {
+      this.sweepTimer = setInterval(() => void this.prune(), sweepInterval * 1000)
+      this.sweepTimer.unref()
+    }
   }
 
-  async get(sid: string): Promise<SessionData | null> {
+  get size(): number {
+    return this.store.size
+  }
+
+  private write(sid: string, sess: SessionData) {
+    // Re-insert so that the most recently used records are last in iteration order
+    this.remove(sid)
+    this.store.set(sid, this.serializer.serialize(sess))
+    this.expiries.set(sid, sess.cookie.expires ? new Date(sess.cookie.expires).getTime() : Date.now() + this.ttl * 1000)
+    const owner = sess[ownerKey]
+    if (owner != null) {
+      if (!this.owners.has(owner)) this.owners.set(owner, new Set())
+      this.owners.get(owner)?.add(sid)
+      this.sessionOwners.set(sid, owner)
+    }
+
+    for (const lruSid of this.store.keys()) {
+      if (this.store.size <= this.maxEntries) break
+      this.remove(lruSid)
+    }
+  }
+
+  private remove(sid: string) {
+    this.store.delete(sid)
+    this.expiries.delete(sid)
+    const owner = this.sessionOwners.get(sid)
+    if (owner == null) return
+    this.sessionOwners.delete(sid)
+    const sids = this.owners.get(owner)
+    sids?.delete(sid)
+    if (sids?.size === 0) this.owners.delete(owner)
+  }
+
+  private read(sid: string): SessionData | null {
     const sess = this.store.get(sid)
     if (sess) {
-      const session = JSON.parse(sess, (key, value) => {
-        if (key === "expires") return new Date(value)
-        return value
-      }) as SessionData
-      if (session.cookie.expires && session.cookie.expires.getTime() <= Date.now()) {
-        await this.destroy(sid)
+      const session = this.serializer.deserialize(sess)
+      const expiresAt = this.expiries.get(sid) ?? session.cookie.expires?.getTime()
+      if (expiresAt != null && expiresAt <= Date.now()) {
+        this.remove(sid)
         return null
       }
+      this.store.delete(sid)
+      this.store.set(sid, sess)
+      if (!session.cookie.expires) this.expiries.set(sid, Date.now() + this.ttl * 1000)
       return session
     }
     return null
   }
 
+  async get(sid: string): Promise<SessionData | null> {
+    return this.read(sid)
+  }
+
   async set(sid: string, sess: SessionData) {
-    this.store.set(sid, JSON.stringify(sess))
+    this.write(sid, sess)
+  }
+
+  async setIfVersion(sid: string, sess: SessionData, expectedVersion: number): Promise<boolean> {
+    if ((this.read(sid)?.[versionKey] ?? 0) !== expectedVersion) return false
+    this.write(sid, sess)
+    return true
+  }
+
+  async patch(sid: string, changes: SessionChanges): Promise<boolean> {
+    const sess = this.read(sid)
+    if (sess == null) return false
+    Object.assign(sess, changes.set)
+    for (const key of changes.delete) delete sess[key]
+    this.write(sid, sess)
+    return true
   }
 
   async destroy(sid: string) {
-    this.store.delete(sid)
+    this.remove(sid)
   }
 
   async touch(sid: string, sess: SessionData) {
-    this.store.set(sid, JSON.stringify(sess))
+    const stored = this.read(sid)
+    this.write(sid, stored == null ? sess : touchedRecord(stored, sess))
+  }
+
+  /**
+   * Deletes all expired session records.
+   * @returns the number of deleted records
+   */
+  async prune(): Promise<number> {
+    const now = Date.now()
+    let count = 0
+    for (const [sid, expiresAt] of this.expiries) {
+      if (expiresAt > now) continue
+      await this.destroy(sid)
+      count++
+    }
+    return count
+  }
+
+  async listByOwner(owner: string): Promise<[string, SessionData][]> {
+    const sessions: [string, SessionData][] = []
+    for (const sid of this.owners.get(owner) ?? []) {
+      const session = await this.get(sid)
+      if (session != null) sessions.push([sid, session])
+    }
+    return sessions
+  }
+
+  async destroyByOwner(owner: string): Promise<number> {
+    const sids = [...(this.owners.get(owner) ?? [])]
+    for (const sid of sids) this.remove(sid)
+    return sids.length
+  }
+
+  /**
+   * Deletes all session records.
+   */
+  async clear() {
+    this.store.clear()
+    this.expiries.clear()
+    this.owners.clear()
+    this.sessionOwners.clear()
+  }
+
+  /**
+   * Stops sweeping expired session records.
+   */
+  dispose() {
+    clearInterval(this.sweepTimer)
+    this.sweepTimer = undefined
+  }
+
+  async [Symbol.asyncDispose]() {
+    this.dispose()
   }
 }
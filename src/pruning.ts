@@ -0,0 +1,77 @@
+import type { SessionStore } from "./types"
+
+export type PruningOptions = {
+  /**
+   * Interval **(in seconds)** between runs of `store.prune()`. Must be a positive number.
+   * @default 60
+   */
+  interval?: number | undefined
+  /**
+   * Called with the number of session records deleted by each run.
+   * @default undefined
+   */
+  onPrune?: ((count: number) => void) | undefined
+  /**
+   * Called with the error thrown by a failed run, including an error thrown by `onPrune`. Failed runs are reported as
+   * process warnings if unset, as are errors thrown by `onError` itself.
+   * @default undefined
+   */
+  onError?: ((err: unknown) => void) | undefined
+}
+
+export type Pruning = AsyncDisposable & {
+  /**
+   * Stops scheduling runs, then waits for the current run (if any) to finish.
+   */
+  stop(): Promise<void>
+}
+
+/**
+ * Deletes expired session records from `store` periodically, using `store.prune()`. The timer does not keep the process
+ * alive, and a run is skipped while the previous run is still in progress.
+ *
+ * @example
+ * const pruning = startPruning(store, { interval: 300, onError: (err) => logger.error(err) })
+ * process.on("SIGTERM", () => pruning.stop())
+ */
+export function startPruning(store: SessionStore, options: PruningOptions = {}): Pruning {
+  const prune = store.prune
+  if (prune == null) throw new TypeError("The session store does not support pruning expired sessions")
+  const interval = options.interval ?? 60
+  if (!(Number.isFinite(interval) && interval > 0)) {
+    throw new TypeError(`Pruning interval must be a positive number of seconds, got ${interval}`)
+  }
+
+  const warn = (err: unknown) => process.emitWarning(err instanceof Error ? err : String(err))
+
+  let running: Promise<void> | undefined
+  // Runs are scheduled by a timer which cannot handle their failures, so a run must never reject, even if a callback
+  // throws
+  const run = async () => {
+    try {
+      const count = await prune.call(store)
+      options.onPrune?.(count)
+    } catch (err) {
+      try {
+        if (options.onError != null) options.onError(err)
+        else warn(err)
+      } catch (callbackErr) {
+        warn(callbackErr)
+      }
+    } finally {
+      running = undefined
+    }
+  }
+
+  const timer = setInterval(() => {
+    running ??= run()
+  }, interval * 1000)
+  timer.unref()
+
+  async function stop() {
+    clearInterval(timer)
+    await running
+  }
+
+  return { stop, [Symbol.asyncDispose]: stop }
+}
@@ -0,0 +1,160 @@
+import { setTimeout as delay } from "node:timers/promises"
+
+import { SessionStoreError } from "./errors"
+import type { IndexedSessionStore, SessionData, SessionStore } from "./types"
+
+export type ResilientStoreOptions = {
+  /**
+   * Time **(in milliseconds)** after which a store operation is abandoned, or `0` to wait indefinitely.
+   * @default 2000
+   */
+  timeout?: number | undefined
+  /**
+   * The number of times a failed store operation is retried. `setIfVersion` is never retried, since an attempt which
+   * timed out may still have written the record.
+   * @default 2
+   */
+  retries?: number | undefined
+  /**
+   * Time **(in milliseconds)** to wait before the first retry. The delay doubles for each later retry.
+   * @default 50
+   */
+  retryDelay?: number | undefined
+  /**
+   * Whether a store operation which failed with `err` should be retried.
+   * @default () => true
+   */
+  isRetryable?: ((err: unknown) => boolean) | undefined
+  /**
+   * The number of consecutive failed store operations after which the circuit opens: operations then fail immediately,
+   * without calling the wrapped store. `0` disables the circuit breaker.
+   * @default 5
+   */
+  failureThreshold?: number | undefined
+  /**
+   * Time **(in milliseconds)** for which the circuit stays open. Afterwards, one operation is let through to test the
+   * wrapped store; the circuit closes if it succeeds, and opens again if it fails.
+   * @default 10000
+   */
+  resetTimeout?: number | undefined
+}
+
+function withTimeout<R>(operation: string, promise: Promise<R>, timeout: number): Promise<R> {
+  if (timeout <= 0) return promise
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new SessionStoreError(operation, `timed out after ${timeout}ms`)), timeout)
+  })
+  return Promise.race([promise, timedOut]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Session store which wraps another session store with per-operation timeouts, retries with exponential backoff and
+ * a circuit breaker. Failed operations reject with a `SessionStoreError`.
+ */
+export default class ResilientStore implements SessionStore {
+  store: SessionStore
+  timeout: number
+  retries: number
+  retryDelay: number
+  failureThreshold: number
+  resetTimeout: number
+  private isRetryable: (err: unknown) => boolean
+  private failures: number
+  private openedAt: number | null
+  private probing: boolean
+
+  touch?: SessionStore["touch"]
+  setIfVersion?: SessionStore["setIfVersion"]
+  patch?: SessionStore["patch"]
+  prune?: SessionStore["prune"]
+  listByOwner?: IndexedSessionStore["listByOwner"]
+  destroyByOwner?: IndexedSessionStore["destroyByOwner"]
+
+  constructor(store: SessionStore, options: ResilientStoreOptions = {}) {
+    this.store = store
+    this.timeout = options.timeout ?? 2000
+    this.retries = options.retries ?? 2
+    this.retryDelay = options.retryDelay ?? 50
+    this.isRetryable = options.isRetryable ?? (() => true)
+    this.failureThreshold = options.failureThreshold ?? 5
+    this.resetTimeout = options.resetTimeout ?? 10000
+    this.failures = 0
+    this.openedAt = null
+    this.probing = false
+
+    // Expose the optional capabilities of the wrapped store
+    const { touch, setIfVersion, patch, prune, listByOwner, destroyByOwner } = store as Partial<IndexedSessionStore>
+    if (touch != null) {
+      this.touch = async (sid, sess) => await this.run("touch", () => touch.call(store, sid, sess))
+    }
+    if (setIfVersion != null) {
+      this.setIfVersion = async (sid, sess, expectedVersion) =>
+        await this.run("setIfVersion", () => setIfVersion.call(store, sid, sess, expectedVersion), false)
+    }
+    if (patch != null) {
+      this.patch = async (sid, changes) => await this.run("patch", () => patch.call(store, sid, changes))
+    }
+    if (prune != null) {
+      this.prune = async () => await this.run("prune", () => prune.call(store))
+    }
+    if (listByOwner != null && destroyByOwner != null) {
+      this.listByOwner = async (owner) => await this.run("listByOwner", () => listByOwner.call(store, owner))
+      this.destroyByOwner = async (owner) => await this.run("destroyByOwner", () => destroyByOwner.call(store, owner))
+    }
+  }
+
+  /**
+   * Whether the circuit is open, so that store operations fail without calling the wrapped store.
+   */
+  get isOpen(): boolean {
+    return this.openedAt != null
+  }
+
+  private async run<R>(operation: string, attempt: () => Promise<R>, retryable = true): Promise<R> {
+    const isProbe = this.openedAt != null
+    if (isProbe) {
+      if (this.probing || Date.now() - (this.openedAt as number) < this.resetTimeout) {
+        throw new SessionStoreError(operation, "the circuit is open")
+      }
+      this.probing = true
+    }
+
+    try {
+      const attempts = retryable ? this.retries + 1 : 1
+      for (let index = 1; ; index++) {
+        try {
+          const result = await withTimeout(operation, attempt(), this.timeout)
+          this.failures = 0
+          this.openedAt = null
+          return result
+        } catch (err) {
+          if (index < attempts && this.isRetryable(err)) {
+            await delay(this.retryDelay * 2 ** (index - 1))
+            continue
+          }
+          this.failures++
+          if (isProbe || (this.failureThreshold > 0 && this.failures >= this.failureThreshold)) {
+            this.openedAt = Date.now()
+          }
+          if (err instanceof SessionStoreError) throw err
+          throw new SessionStoreError(operation, err instanceof Error ? err.message : String(err), { cause: err })
+        }
+      }
+    } finally {
+      if (isProbe) this.probing = false
+    }
+  }
+
+  async get(sid: string): Promise<SessionData | null | undefined> {
+    return await this.run("get", () => this.store.get(sid))
+  }
+
+  async set(sid: string, sess: SessionData) {
+    await this.run("set", () => this.store.set(sid, sess))
+  }
+
+  async destroy(sid: string) {
+    await this.run("destroy", () => this.store.destroy(sid))
+  }
+}
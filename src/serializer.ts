@@ -0,0 +1,65 @@
+import type { Serializer, SessionData } from "./types"
+
+type Tagged =
+  | { $t: "Date"; v: string | null }
+  | { $t: "Map"; v: [unknown, unknown][] }
+  | { $t: "Set"; v: unknown[] }
+  | { $t: "BigInt"; v: string }
+  | { $t: "Object"; v: [string, unknown][] }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value == null || typeof value !== "object") return false
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+function isTagged(value: unknown): value is Tagged {
+  if (!isPlainObject(value)) return false
+  const keys = Object.keys(value)
+  return keys.length === 2 && typeof value.$t === "string" && "v" in value
+}
+
+/**
+ * Serializes session records as JSON, preserving `Date`, `Map`, `Set` and `BigInt` values using tagged encoding.
+ * `cookie.expires` is kept as an ISO 8601 string, for compatibility with records serialized using plain JSON.
+ */
+export const defaultSerializer: Serializer = {
+  serialize(sess: SessionData): string {
+    return JSON.stringify(sess, function (this: Record<string, unknown>, key: string, value: unknown): unknown {
+      const raw = this[key]
+      if (raw instanceof Date) {
+        if (this === sess.cookie && key === "expires") return value
+        return { $t: "Date", v: raw.toJSON() } satisfies Tagged
+      }
+      if (raw instanceof Map) return { $t: "Map", v: [...raw] } satisfies Tagged
+      if (raw instanceof Set) return { $t: "Set", v: [...raw] } satisfies Tagged
+      if (typeof raw === "bigint") return { $t: "BigInt", v: raw.toString() } satisfies Tagged
+      // Escape objects which would otherwise be mistaken for tagged values
+      if (isTagged(raw)) return { $t: "Object", v: Object.entries(raw) } satisfies Tagged
+      return value
+    })
+  },
+
+  deserialize(serialized: string): SessionData {
+    const sess = JSON.parse(serialized, (_key, value: unknown) => {
+      if (!isTagged(value)) return value
+      switch (value.$t) {
+        case "Date":
+          return new Date(value.v ?? Number.NaN)
+        case "Map":
+          return new Map(value.v)
+        case "Set":
+          return new Set(value.v)
+        case "BigInt":
+          return BigInt(value.v)
+        case "Object":
+          return Object.fromEntries(value.v)
+        default:
+          return value
+      }
+    }) as SessionData
+    const expires = sess.cookie?.expires as string | Date | undefined | null
+    if (typeof expires === "string") sess.cookie.expires = new Date(expires)
+    return sess
+  },
+}
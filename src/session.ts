@@ -1,65 +1,488 @@
-import type { Request, Response } from "@otterhttp/app"
+import type { IncomingMessage, ServerResponse } from "node:http"
 import { nanoid } from "nanoid"
 
+import { fingerprint, mismatchedAttributes } from "./binding"
+import CookieStore, { chunkName } from "./cookie-store"
+import { SessionConflictError, SessionStoreError } from "./errors"
+import { readCookie, registerBeforeEndAction, registerLateHeaderAction } from "./http"
+import {
+  bindingKey,
+  createdAtKey,
+  flashKey,
+  lastActiveAtKey,
+  ownerKey,
+  reservedKeys,
+  schemaKey,
+  touchedAtKey,
+  versionKey,
+} from "./keys"
 import MemoryStore from "./memory-store"
-import { isDestroyed, isNew, isTouched, lateHeaderAction } from "./symbol"
-import type { Options, Session, SessionRecord } from "./types"
-import { appendSessionCookieHeader } from "./utils"
+import { sign, unsign } from "./signature"
+import {
+  hasFlashChanges,
+  hasStaleSignature,
+  isDestroyed,
+  isDirty,
+  isNew,
+  isRegenerated,
+  isTouched,
+  lateHeaderAction,
+  sealedChunks,
+} from "./symbol"
+import type {
+  IndexedSessionStore,
+  LazySession,
+  Options,
+  Session,
+  SessionData,
+  SessionRecord,
+  SessionStore,
+  SessionTransport,
+} from "./types"
+import {
+  appendSessionCookieHeader,
+  changesSince,
+  isPopulated,
+  readSessionHeader,
+  runHooks,
+  setSessionHeader,
+  snapshotKeys,
+  touchedRecord,
+  trackChanges,
+} from "./utils"
+
+const sessionMethods = new Set(["touch", "commit", "destroy", "regenerate", "flash", "consumeFlash"])
+
+// Degraded sessions stand in for a record which could not be read, so writing them could overwrite that record
+function degradedError(operation: string) {
+  return new SessionStoreError(operation, "the session record could not be read, so the session cannot be written")
+}
 
 export default function session<
   T extends SessionRecord = SessionRecord,
-  Req extends Request & { session?: Session<T> } = Request & { session?: Session<T> },
-  Res extends Response<Req> = Response<Req>,
->(options: Options = {}) {
+  Req extends IncomingMessage & { session?: Session<T> } = IncomingMessage & { session?: Session<T> },
+  Res extends ServerResponse = ServerResponse,
+>(options: Options<T, Req> = {}) {
   type TypedSession = Session<T>
+  type FlashData = SessionData<{ [flashKey]?: Record<string, unknown[]> }>
 
-  const store = options.store || new MemoryStore()
+  const cookieStore = options.store instanceof CookieStore ? options.store : undefined
+  const store: SessionStore | undefined =
+    cookieStore == null ? (options.store as SessionStore | undefined) || new MemoryStore() : undefined
   const genId = options.genid || nanoid
   const touchAfter = options.touchAfter ?? -1
-  const { name: maybeName, unsign, ...cookieOpts } = options.cookie ?? {}
+  const autoCommit = options.autoCommit ?? false
+  const idleTimeout = options.idleTimeout
+  const absoluteTimeout = options.absoluteTimeout
+  const conflict = options.conflict ?? "last-write-wins"
+  if (conflict !== "last-write-wins" && store?.setIfVersion == null) {
+    throw new TypeError("Conflict strategy requires a session store which implements setIfVersion")
+  }
+  // Requests which only read the session persist their activity by touching it, otherwise active sessions would expire
+  if (idleTimeout != null && conflict === "last-write-wins" && store != null && store.touch == null) {
+    throw new TypeError("idleTimeout requires a session store which implements touch")
+  }
+  // Conflict strategies other than last-write-wins replace whole records, so they cannot use patches
+  const patchable = store?.patch != null && conflict === "last-write-wins"
+  const transports = [options.transport ?? "cookie"].flat()
+  if (transports.length === 0) throw new TypeError("At least one session transport is required")
+  if (cookieStore != null && transports.some((transport) => transport !== "cookie")) {
+    throw new TypeError('CookieStore only supports the "cookie" transport')
+  }
+  const schema = options.schema
+  const migrations = options.migrations ?? []
+  const schemaVersion = options.schemaVersion ?? migrations.length
+  const isVersioned = options.schemaVersion != null || migrations.length > 0
+  const binding = options.binding
+  const onMismatch = binding?.onMismatch ?? "destroy"
+  const readFailure = options.readFailure ?? "fail"
+  const privilegedKeys = options.regenerateOnChange ?? []
+  const secrets = options.secret == null ? [] : [options.secret].flat()
+  const { name: maybeName, unsign: cookieUnsign, ...cookieOpts } = options.cookie ?? {}
   const name = maybeName ?? "sid"
+  // Browsers reject cookies which do not satisfy the constraints of their name prefix. Header transports set no
+  // cookies, so the constraints only apply if the cookie transport is used
+  if (transports.includes("cookie")) {
+    if ((name.startsWith("__Secure-") || name.startsWith("__Host-")) && !cookieOpts.secure) {
+      throw new TypeError(`Session cookie "${name}" requires the secure cookie option`)
+    }
+    if (name.startsWith("__Host-") && ((cookieOpts.path || "/") !== "/" || cookieOpts.domain)) {
+      throw new TypeError(`Session cookie "${name}" requires the path "/" and no domain`)
+    }
+    if (cookieOpts.partitioned && !cookieOpts.secure) {
+      throw new TypeError("Partitioned session cookies require the secure cookie option")
+    }
+  }
+  if (secrets.length > 0) cookieOpts.sign = (value: string) => sign(value, secrets[0])
+
+  function timeoutOf(session: SessionData, now: number) {
+    const createdAt = session[createdAtKey]
+    if (absoluteTimeout != null && createdAt != null && now - createdAt >= absoluteTimeout * 1000) {
+      return "absoluteTimeout"
+    }
+    const lastActiveAt = session[lastActiveAtKey]
+    if (idleTimeout != null && lastActiveAt != null && now - lastActiveAt >= idleTimeout * 1000) return "idleTimeout"
+    return null
+  }
+
+  function recordActivity(session: TypedSession, now: number) {
+    if (absoluteTimeout != null) session[createdAtKey] ??= now
+    if (idleTimeout != null) session[lastActiveAtKey] = now
+  }
+
+  // The cookie must not outlive options.absoluteTimeout
+  function expiryAfter(session: TypedSession, maxAge: number, now: number) {
+    const createdAt = session[createdAtKey]
+    const expires = now + maxAge * 1000
+    if (absoluteTimeout == null || createdAt == null) return new Date(expires)
+    return new Date(Math.min(expires, createdAt + absoluteTimeout * 1000))
+  }
+
+  // Migrates loaded session data to options.schemaVersion and validates it against options.schema
+  async function upgrade(record: SessionData): Promise<SessionData | null> {
+    if (schema == null && !isVersioned) return record
+
+    let data: SessionRecord = {}
+    const reserved: SessionRecord = {}
+    for (const [key, value] of Object.entries(record)) {
+      if (reservedKeys.includes(key)) reserved[key] = value
+      else data[key] = value
+    }
+
+    let version = record[schemaKey] ?? 0
+    if (version > schemaVersion) return null
+    // Records which a migration or the schema cannot handle are discarded, like records which fail validation
+    try {
+      for (; version < schemaVersion; version++) {
+        const migrate = migrations[version]
+        if (migrate == null) return null
+        data = await migrate(data)
+      }
+
+      if (schema != null) {
+        const result = await schema["~standard"].validate(data)
+        if (result.issues != null) return null
+        data = result.value
+      }
+    } catch (err) {
+      return null
+    }
+    return { ...data, ...reserved, ...(isVersioned && { [schemaKey]: schemaVersion }) } as SessionData
+  }
+
+  function recordOwner(session: SessionData) {
+    if (options.owner == null) return
+    const owner = options.owner(session)
+    if (owner == null) delete session[ownerKey]
+    else session[ownerKey] = owner
+  }
+
+  async function save(session: SessionData, sid: string, persisted: Map<string, string> | undefined) {
+    if (store == null) return
+    // Write only the keys which changed since the record was loaded, unless the record no longer exists
+    if (persisted != null && store.patch != null && (await store.patch(sid, changesSince(persisted, session)))) return
+    if (conflict === "last-write-wins" || store.setIfVersion == null) return await store.set(sid, session)
+
+    let expectedVersion = session[versionKey] ?? 0
+    session[versionKey] = expectedVersion + 1
+    if (await store.setIfVersion(sid, session, expectedVersion)) return
+    session[versionKey] = expectedVersion
+    if (conflict === "throw") throw new SessionConflictError(sid)
+
+    const retries = conflict.retries ?? 3
+    for (let attempt = 0; attempt < retries; attempt++) {
+      const stored = await store.get(sid)
+      if (stored != null) {
+        const merged = await conflict.merge(stored, session)
+        for (const key of Object.keys(session)) if (!(key in merged)) delete session[key]
+        Object.assign(session, merged)
+      }
+      expectedVersion = stored?.[versionKey] ?? 0
+      session[versionKey] = expectedVersion + 1
+      if (await store.setIfVersion(sid, session, expectedVersion)) return
+      session[versionKey] = expectedVersion
+    }
+    throw new SessionConflictError(sid)
+  }
+
+  // Extends the expiry of the stored record. Under a conflict strategy, the touch is version-checked so that it cannot
+  // undo a commit made concurrently by another request; it is skipped if the record keeps changing.
+  async function touchRecord(session: SessionData, sid: string) {
+    if (store == null) return
+    if (conflict === "last-write-wins" || store.setIfVersion == null) return await store.touch?.(sid, session)
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const stored = await store.get(sid)
+      if (stored == null) return
+      if (await store.setIfVersion(sid, touchedRecord(stored, session), stored[versionKey] ?? 0)) return
+    }
+  }
+
+  function seal(session: TypedSession) {
+    if (cookieStore == null) return
+    session[sealedChunks] = cookieStore.split(name, cookieStore.seal(session.id, session))
+  }
+
+  async function touchSession(
+    req: Req,
+    session: TypedSession,
+    reason: "touch" | "touchAfter" | "activity",
+    _now: number,
+  ) {
+    if (session.cookie.maxAge != null) {
+      session.cookie.expires = expiryAfter(session, session.cookie.maxAge, _now)
+    }
+    if (touchAfter >= 0) session[touchedAtKey] = _now
+    seal(session)
+    await touchRecord(session, session.id)
+    session[isTouched] = true
+    await runHooks(options.onTouch, req, session, reason)
+  }
+
+  function snapshotPrivilegedKeys(session: TypedSession) {
+    return privilegedKeys.map((key) => JSON.stringify(session[key]))
+  }
+
+  function decorateSession(
+    req: Req,
+    res: Res,
+    session: TypedSession,
+    id: string,
+    _now: number,
+    persisted?: Map<string, string>,
+  ) {
+    let currentId = id
+    let privilegedSnapshot = snapshotPrivilegedKeys(session)
+    let persistedSnapshot = persisted
 
-  function decorateSession(req: Req, res: Res, session: TypedSession, id: string, _now: number) {
     Object.defineProperties(session, {
       commit: {
         value: async function commit(this: TypedSession) {
-          await store.set(this.id, this)
+          if (this.degraded) throw degradedError("set")
+          const snapshot = snapshotPrivilegedKeys(this)
+          if (snapshot.some((value, index) => value !== privilegedSnapshot[index])) {
+            await this.regenerate()
+            return
+          }
+          delete this[isDirty]
+          delete this[hasFlashChanges]
+          recordOwner(this)
+          seal(this)
+          await save(this, this.id, persistedSnapshot)
+          if (patchable) persistedSnapshot = snapshotKeys(this)
+          await runHooks(options.onCommit, req, this, "commit")
         },
       },
       touch: {
         value: async function touch(this: TypedSession) {
-          if (this.cookie.maxAge != null) {
-            this.cookie.expires = new Date(_now + this.cookie.maxAge * 1000)
-          }
-          await store.touch?.(this.id, this)
-          this[isTouched] = true
+          if (this.degraded) throw degradedError("touch")
+          await touchSession(req, this, "touch", _now)
         },
       },
       destroy: {
         value: async function destroy(this: TypedSession) {
+          if (this.degraded) throw degradedError("destroy")
           this[isDestroyed] = true
           this.cookie.expires = new Date(1)
-          await store.destroy(this.id)
+          await store?.destroy(this.id)
           req.session = undefined
+          await runHooks(options.onDestroy, req, this, "destroy")
+        },
+      },
+      regenerate: {
+        value: async function regenerate(this: TypedSession) {
+          if (this.degraded) throw degradedError("set")
+          const previousId = currentId
+          recordOwner(this)
+          // Under a conflict strategy, the record is first saved under its previous ID, so that a commit made
+          // concurrently by another request is detected (or merged) rather than lost
+          if (conflict !== "last-write-wins" && !this[isNew]) await save(this, previousId, undefined)
+          currentId = genId()
+          privilegedSnapshot = snapshotPrivilegedKeys(this)
+          this[isRegenerated] = true
+          delete this[isDirty]
+          delete this[hasFlashChanges]
+          seal(this)
+          await store?.set(currentId, this)
+          if (patchable) persistedSnapshot = snapshotKeys(this)
+          await store?.destroy(previousId)
+          await runHooks(options.onCommit, req, this, "regenerate")
+        },
+      },
+      flash: {
+        value: function flash(this: TypedSession, type: string, message: unknown) {
+          const data = this as FlashData
+          data[flashKey] ??= {}
+          data[flashKey][type] ??= []
+          data[flashKey][type].push(message)
+          this[isDirty] = true
+          this[hasFlashChanges] = true
+        },
+      },
+      consumeFlash: {
+        value: function consumeFlash(this: TypedSession, type?: string) {
+          const data = this as FlashData
+          const messages = data[flashKey]
+          if (messages == null) return type == null ? {} : []
+          this[isDirty] = true
+          this[hasFlashChanges] = true
+          if (type == null) {
+            delete data[flashKey]
+            return messages
+          }
+          const consumed = messages[type] ?? []
+          delete messages[type]
+          if (Object.keys(messages).length === 0) delete data[flashKey]
+          return consumed
         },
       },
-      id: { value: id },
+      id: { get: () => currentId },
+      suspicious: { value: false, writable: true },
+      degraded: { value: false, writable: true },
+    })
+  }
+
+  // Reads the session ID from the first transport through which one was sent
+  function readSessionId(req: Req): { sessionId: string | null; transport: SessionTransport } {
+    for (const transport of transports) {
+      const sessionId =
+        transport === "cookie"
+          ? readCookie(req, name, secrets.length === 0 ? cookieUnsign : undefined)
+          : readSessionHeader(req, transport)
+      if (sessionId != null) return { sessionId, transport }
+    }
+    return { sessionId: null, transport: transports[0] }
+  }
+
+  function readCookieStoreChunks(req: Req): string[] {
+    if (cookieStore == null) return []
+    const chunks: string[] = []
+    for (let index = 0; index < cookieStore.maxChunks; index++) {
+      const chunk = readCookie(req, chunkName(name, index))
+      if (chunk == null) break
+      chunks.push(chunk)
+    }
+    return chunks
+  }
+
+  function appendCookieStoreHeaders(res: Res, session: TypedSession, previousChunkCount: number) {
+    const chunks = session[isDestroyed] ? [] : session[sealedChunks]
+    if (chunks == null) return
+    chunks.forEach((chunk, index) => {
+      appendSessionCookieHeader(res, chunkName(name, index), chunk, session.cookie, { encode: cookieOpts.encode })
     })
+    // Clear chunks left over from a previous, larger session cookie
+    const expired = { ...session.cookie, expires: new Date(1) }
+    for (let index = chunks.length; index < Math.max(previousChunkCount, 1); index++) {
+      appendSessionCookieHeader(res, chunkName(name, index), "", expired, { encode: cookieOpts.encode })
+    }
+  }
+
+  function indexedStore(): IndexedSessionStore {
+    const indexed = store as Partial<IndexedSessionStore> | undefined
+    if (indexed?.listByOwner == null || indexed.destroyByOwner == null) {
+      throw new TypeError("The session store does not support indexing sessions by owner")
+    }
+    return indexed as IndexedSessionStore
+  }
+
+  /**
+   * Lists the sessions associated with `owner`, as `[sessionId, sessionRecord]` pairs.
+   */
+  async function listSessions(owner: string): Promise<[string, SessionData][]> {
+    return await indexedStore().listByOwner(owner)
   }
 
-  return async function sessionHandle(req: Req, res: Res): Promise<TypedSession> {
+  /**
+   * Destroys the sessions associated with `owner`, except the session with ID `options.except`.
+   * @returns the number of destroyed sessions
+   */
+  async function destroySessions(owner: string, { except }: { except?: string | undefined } = {}): Promise<number> {
+    const indexed = indexedStore()
+    if (except == null) return await indexed.destroyByOwner(owner)
+
+    let count = 0
+    for (const [sid] of await indexed.listByOwner(owner)) {
+      if (sid === except) continue
+      await indexed.destroy(sid)
+      count++
+    }
+    return count
+  }
+
+  async function sessionHandle(req: Req, res: Res): Promise<TypedSession> {
     if (req.session != null) return req.session
 
     const _now = Date.now()
 
-    const sessionCookie = req.cookies[name]
-    if (unsign != null && sessionCookie != null && !sessionCookie.signed) sessionCookie.unsign(unsign)
-
     let sessionId: string | null = null
-    try {
-      sessionId = sessionCookie?.value ?? null
-    } catch (err) {}
-    const _session = sessionId ? await store.get(sessionId) : null
+    let _session: SessionData | null | undefined = null
+    let previousChunkCount = 0
+    let signedWithStaleSecret = false
+    let degraded = false
+    let transport = transports[0]
+    if (cookieStore != null) {
+      const chunks = readCookieStoreChunks(req)
+      previousChunkCount = chunks.length
+      const unsealed = chunks.length > 0 ? cookieStore.unseal(chunks.join("")) : null
+      sessionId = unsealed?.id ?? null
+      _session = unsealed?.data
+    } else {
+      const received = readSessionId(req)
+      sessionId = received.sessionId
+      transport = received.transport
+      if (secrets.length > 0 && sessionId != null) {
+        const unsigned = unsign(sessionId, secrets)
+        sessionId = unsigned?.value ?? null
+        signedWithStaleSecret = unsigned != null && unsigned.secretIndex > 0
+      }
+      try {
+        _session = sessionId && store ? await store.get(sessionId) : null
+      } catch (err) {
+        if (readFailure === "fail") {
+          if (err instanceof SessionStoreError) throw err
+          throw new SessionStoreError("get", err instanceof Error ? err.message : String(err), { cause: err })
+        }
+        degraded = true
+      }
+    }
+    // Changes are found by comparing with the record as it is stored, before it is migrated or otherwise modified
+    const persisted = _session && patchable ? snapshotKeys(_session) : undefined
+
+    let createReason: "new" | "unknown" | "expired" | "invalid" | "mismatch" | "degraded" =
+      sessionId == null ? "new" : degraded ? "degraded" : "unknown"
+
+    // Sessions which exceeded options.idleTimeout or options.absoluteTimeout are replaced by new sessions
+    const timeout = _session ? timeoutOf(_session, _now) : null
+    if (_session && timeout != null) {
+      await store?.destroy(sessionId as string)
+      await runHooks(options.onExpired, req, _session as SessionData<T>, timeout)
+      createReason = "expired"
+      _session = null
+    }
+
+    // Session records which cannot be migrated, or fail validation, are replaced by new sessions
+    const isOutdated = _session != null && isVersioned && (_session[schemaKey] ?? 0) !== schemaVersion
+    if (_session) {
+      _session = await upgrade(_session)
+      if (_session == null) {
+        await store?.destroy(sessionId as string)
+        createReason = "invalid"
+      }
+    }
+
+    // Sessions loaded by a client whose attributes do not match options.binding are handled by binding.onMismatch
+    const clientFingerprint = binding == null ? undefined : fingerprint(req, binding)
+    let mismatches: string[] = []
+    if (_session && clientFingerprint != null) {
+      mismatches = mismatchedAttributes(_session[bindingKey] ?? {}, clientFingerprint)
+      if (mismatches.length > 0 && onMismatch === "destroy") {
+        await store?.destroy(sessionId as string)
+        createReason = "mismatch"
+        _session = null
+      }
+    }
+
+    const persistedActivity = _session?.[lastActiveAtKey]
 
     let session: TypedSession
     if (_session) {
@@ -70,16 +493,17 @@ export default function session<
         session.cookie.expires = new Date(expires)
       }
 
-      // Add session methods
-      decorateSession(req, res, session, sessionId as string, _now)
-
-      // Extends the expiry of the session if options.touchAfter is satisfied
-      if (touchAfter >= 0 && session.cookie.expires) {
-        const lastTouchedTime = session.cookie.expires.getTime() - session.cookie.maxAge * 1000
-        if (_now - lastTouchedTime >= touchAfter * 1000) {
-          await session.touch()
-        }
+      recordActivity(session, _now)
+      if (isOutdated) session[isDirty] = true
+      // Record attributes which were added to options.binding after the session was created
+      const recordedFingerprint = session[bindingKey] ?? {}
+      if (clientFingerprint != null && Object.keys(clientFingerprint).some((name) => !(name in recordedFingerprint))) {
+        session[bindingKey] = { ...clientFingerprint, ...recordedFingerprint }
+        session[isDirty] = true
       }
+
+      // Add session methods
+      decorateSession(req, res, session, sessionId as string, _now, persisted)
     } else {
       sessionId = genId()
       session = {
@@ -90,26 +514,176 @@ export default function session<
           domain: cookieOpts.domain || null,
           sameSite: cookieOpts.sameSite || null,
           secure: cookieOpts.secure || false,
+          ...(cookieOpts.partitioned && { partitioned: true }),
+          ...(cookieOpts.priority != null && { priority: cookieOpts.priority }),
         },
       } as TypedSession
+      recordActivity(session, _now)
+      if (touchAfter >= 0) session[touchedAtKey] = _now
+      if (isVersioned) session[schemaKey] = schemaVersion
+      if (clientFingerprint != null) session[bindingKey] = clientFingerprint
       if (cookieOpts.maxAge) {
         session.cookie.maxAge = cookieOpts.maxAge
-        session.cookie.expires = new Date(_now + cookieOpts.maxAge * 1000)
+        session.cookie.expires = expiryAfter(session, cookieOpts.maxAge, _now)
       }
 
       // Add session methods
       decorateSession(req, res, session, sessionId, _now)
+      session.degraded = degraded
+    }
+
+    // Track modifications so that they can be committed automatically
+    if (autoCommit) {
+      const target = session
+      session = trackChanges(target, () => {
+        target[isDirty] = true
+      })
+    }
+
+    // Re-issue cookies which were signed using a secret other than the current one
+    if (_session && signedWithStaleSecret) session[hasStaleSignature] = true
+
+    if (_session) {
+      await runHooks(options.onLoad, req, session, "load")
+
+      // Extends the expiry of the session if options.touchAfter is satisfied. The expiry cannot tell when the session
+      // was last touched once it is capped by options.absoluteTimeout, so the time of the last touch is recorded
+      const expires = session.cookie.expires
+      const lastTouchedTime = session[touchedAtKey] ?? (expires && expires.getTime() - session.cookie.maxAge * 1000)
+      // Activity is persisted so that options.idleTimeout also counts requests which do not modify the session, at most
+      // once per options.touchAfter
+      const throttle = Math.max(touchAfter, 0) * 1000
+      if (touchAfter >= 0 && lastTouchedTime != null && _now - lastTouchedTime >= throttle) {
+        await touchSession(req, session, "touchAfter", _now)
+      } else if (idleTimeout != null && _now - (persistedActivity ?? 0) >= throttle) {
+        await touchSession(req, session, "activity", _now)
+      }
+
+      if (mismatches.length > 0) {
+        session.suspicious = true
+        if (typeof onMismatch === "function") await onMismatch(req, session, mismatches)
+      }
+    } else {
+      await runHooks(options.onCreate, req, session, createReason)
     }
 
     req.session = session
 
-    res.registerLateHeaderAction(lateHeaderAction, (res: Res) => {
-      if (!(session[isNew] && Object.keys(session).length > 1) && !session[isTouched] && !session[isDestroyed]) return
-      appendSessionCookieHeader(res, name, session, cookieOpts)
+    // Modified sessions are saved before the response ends, so that clients never hold a session ID without a record.
+    // Flash messages are always saved, so that they are shown exactly once.
+    registerBeforeEndAction(res, () => {
+      if (session[isDestroyed] || session.degraded) return null
+      return (autoCommit && session[isDirty]) || session[hasFlashChanges] ? session.commit() : null
+    })
+
+    registerLateHeaderAction(res, lateHeaderAction, (res: Res) => {
+      // Degraded sessions are never saved, so the client keeps the session ID it sent
+      if (session.degraded) return
+      if (cookieStore != null) {
+        // Headers may be sent before the response ends, in which case the modified session must be sealed already
+        if (autoCommit && session[isDirty] && !session[isDestroyed]) seal(session)
+        appendCookieStoreHeaders(res, session, previousChunkCount)
+        return
+      }
+      const isIdIssued =
+        (session[isNew] && isPopulated(session)) || session[isRegenerated] || session[hasStaleSignature]
+      if (transport !== "cookie") {
+        // Header transports have no expiry to extend, so the session ID is only returned when it changes
+        if (!isIdIssued && !session[isDestroyed]) return
+        const value = session[isDestroyed] ? "" : secrets.length > 0 ? sign(session.id, secrets[0]) : session.id
+        setSessionHeader(res, transport, value)
+        return
+      }
+      if (!isIdIssued && !session[isTouched] && !session[isDestroyed]) return
+      appendSessionCookieHeader(res, name, session.id, session.cookie, cookieOpts)
     })
 
     return session
   }
+
+  /**
+   * connect/express-style middleware which loads the session into `req.session`, then calls `next`.
+   */
+  function middleware(req: Req, res: Res, next: (err?: unknown) => void) {
+    sessionHandle(req, res).then(() => next(), next)
+  }
+
+  /**
+   * Gets a handle to the session of `req` which defers loading the session until it is first used, so that requests
+   * which never use their session do not read the session store.
+   */
+  function lazy(req: Req, res: Res): LazySession<T> {
+    let loading: Promise<TypedSession> | undefined
+    const load = () => {
+      if (loading != null) return loading
+      const promise = sessionHandle(req, res)
+      // A failed load is not memoized, so that it can be retried; the rejection is left to the callers of `load()`
+      promise.catch(() => {
+        if (loading === promise) loading = undefined
+      })
+      loading = promise
+      return promise
+    }
+
+    return new Proxy({} as LazySession<T>, {
+      get(_target, key) {
+        if (key === "load") return load
+        // The handle must not be thenable, otherwise awaiting it would load the session, and serializing or inspecting
+        // it must not load the session either
+        if (key === "then" || key === "toJSON" || typeof key === "symbol") return undefined
+        if (sessionMethods.has(key)) {
+          return async (...args: unknown[]) => {
+            const session = await load()
+            return Reflect.apply(session[key as keyof TypedSession] as (...args: unknown[]) => unknown, session, args)
+          }
+        }
+        // Property reads are often not awaited (e.g. when checking whether a property exists), so their rejection must
+        // not be reported as unhandled
+        const value = load().then((session) => session[key])
+        value.catch(() => {})
+        return value
+      },
+      set() {
+        throw new TypeError("Lazy session handles are read-only; modify the session returned by `load()` instead")
+      },
+    })
+  }
+
+  return Object.assign(sessionHandle, { listSessions, destroySessions, middleware, lazy })
 }
 
-export type { Options, Session, SessionData, SessionStore } from "./types"
+export { default as CachedStore } from "./cached-store"
+export type { CachedStoreOptions } from "./cached-store"
+export { default as CookieStore } from "./cookie-store"
+export type { CookieStoreOptions } from "./cookie-store"
+export { default as csrf } from "./csrf"
+export type { CsrfOptions } from "./csrf"
+export { default as FileStore } from "./file-store"
+export type { FileStoreOptions } from "./file-store"
+export { default as LevelStore } from "./level-store"
+export type { LevelStoreOptions } from "./level-store"
+export { default as MemoryStore } from "./memory-store"
+export type { MemoryStoreOptions } from "./memory-store"
+export { startPruning } from "./pruning"
+export type { Pruning, PruningOptions } from "./pruning"
+export { default as ResilientStore } from "./resilient-store"
+export type { ResilientStoreOptions } from "./resilient-store"
+export { CsrfError, SessionConflictError, SessionStoreError } from "./errors"
+export { defaultSerializer } from "./serializer"
+export type {
+  ConflictStrategy,
+  FlashMessages,
+  IndexedSessionStore,
+  LazySession,
+  Options,
+  Serializer,
+  Session,
+  SessionBinding,
+  SessionChanges,
+  SessionData,
+  SessionHook,
+  SessionMigration,
+  SessionStore,
+  SessionTransport,
+  StandardSchema,
+} from "./types"
@@ -0,0 +1,29 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+
+function signature(value: string, secret: string) {
+  return createHmac("sha256", secret).update(value).digest("base64url")
+}
+
+/**
+ * Signs `value` with HMAC-SHA256 using `secret`.
+ */
+export function sign(value: string, secret: string): string {
+  return `${value}.${signature(value, secret)}`
+}
+
+/**
+ * Verifies a value signed by {@link sign} against each of `secrets`, using timing-safe comparison.
+ * @returns the unsigned value and the index of the secret which matched, or `null` if no secret matched
+ */
+export function unsign(signed: string, secrets: readonly string[]): { value: string; secretIndex: number } | null {
+  const separatorIndex = signed.lastIndexOf(".")
+  if (separatorIndex < 0) return null
+  const value = signed.slice(0, separatorIndex)
+  const actual = Buffer.from(signed.slice(separatorIndex + 1))
+
+  for (const [secretIndex, secret] of secrets.entries()) {
+    const expected = Buffer.from(signature(value, secret))
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) return { value, secretIndex }
+  }
+  return null
+}
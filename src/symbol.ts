@@ -2,3 +2,8 @@ export const isTouched = Symbol("session.isTouched")
 export const isDestroyed = Symbol("session.isDestroyed")
 export const isNew = Symbol("session.isNew")
 export const lateHeaderAction = Symbol("session.lateHeaderAction")
+export const isRegenerated = Symbol("session.isRegenerated")
+export const isDirty = Symbol("session.isDirty")
+export const hasFlashChanges = Symbol("session.hasFlashChanges")
+export const hasStaleSignature = Symbol("session.hasStaleSignature")
+export const sealedChunks = Symbol("session.sealedChunks")
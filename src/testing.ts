@@ -0,0 +1,190 @@
+import assert from "node:assert/strict"
+
+import type { IndexedSessionStore, SessionData, SessionStore } from "./types"
+
+export type SessionStoreSuiteOptions<S extends SessionStore = SessionStore> = {
+  /**
+   * Name of the test suite.
+   * @default "SessionStore conformance"
+   */
+  name?: string | undefined
+  /**
+   * Creates the store under test. Called once per test, so each test runs against an empty store.
+   */
+  createStore: () => S | Promise<S>
+  /**
+   * Releases resources held by a store created by `createStore`, after each test.
+   * @default undefined
+   */
+  destroyStore?: ((store: S) => void | Promise<void>) | undefined
+  /**
+   * The test framework's `describe` function, e.g. from `vitest` or `node:test`.
+   */
+  describe: (name: string, fn: () => void) => unknown
+  /**
+   * The test framework's `test` function, e.g. from `vitest` or `node:test`.
+   */
+  test: (name: string, fn: () => Promise<void>) => unknown
+}
+
+const cookie = { httpOnly: true, path: "/", secure: false, domain: null, sameSite: null }
+
+function record(data: Record<string, unknown>, expiresIn = 60_000): SessionData {
+  return {
+    ...data,
+    cookie: { ...cookie, maxAge: Math.round(expiresIn / 1000), expires: new Date(Date.now() + expiresIn) },
+  }
+}
+
+function isIndexed(store: SessionStore): store is IndexedSessionStore {
+  const indexed = store as Partial<IndexedSessionStore>
+  return indexed.listByOwner != null && indexed.destroyByOwner != null
+}
+
+/**
+ * Defines a test suite which checks that a session store behaves as `@otterhttp/session` expects.
+ * Optional methods (`touch`, `setIfVersion`, `patch`, `prune`, `listByOwner` and `destroyByOwner`) are only tested if
+ * the store implements them.
+ *
+ * @example
+ * import { describe, test } from "vitest"
+ * import { testSessionStore } from "@otterhttp/session/testing"
+ *
+ * testSessionStore({ describe, test, createStore: () => new MyStore() })
+ */
+export function testSessionStore<S extends SessionStore>(options: SessionStoreSuiteOptions<S>) {
+  const { describe, test } = options
+
+  function storeTest(name: string, fn: (store: S) => Promise<void>) {
+    test(name, async () => {
+      const store = await options.createStore()
+      try {
+        await fn(store)
+      } finally {
+        await options.destroyStore?.(store)
+      }
+    })
+  }
+
+  describe(options.name ?? "SessionStore conformance", () => {
+    storeTest("get null for missing session IDs", async (store) => {
+      assert.equal((await store.get("missing")) ?? null, null)
+    })
+
+    storeTest("get the session record which was set", async (store) => {
+      const sess = record({ foo: "bar", nested: { list: [1, "two", null], flag: true } })
+      await store.set("foo", sess)
+      assert.deepEqual(await store.get("foo"), sess)
+    })
+
+    storeTest("revive cookie.expires as a Date", async (store) => {
+      const sess = record({})
+      await store.set("foo", sess)
+      const loaded = await store.get("foo")
+      assert.ok(loaded?.cookie.expires instanceof Date, "cookie.expires should be a Date")
+      assert.equal(loaded.cookie.expires.getTime(), sess.cookie.expires?.getTime())
+    })
+
+    storeTest("keep session records without an expiry", async (store) => {
+      const sess: SessionData = { foo: "bar", cookie }
+      await store.set("foo", sess)
+      assert.deepEqual(await store.get("foo"), sess)
+    })
+
+    storeTest("overwrite session records", async (store) => {
+      await store.set("foo", record({ foo: "bar" }))
+      const sess = record({ foo: "baz" })
+      await store.set("foo", sess)
+      assert.deepEqual(await store.get("foo"), sess)
+    })
+
+    storeTest("keep session records separate", async (store) => {
+      const foo = record({ value: "foo" })
+      const bar = record({ value: "bar" })
+      await store.set("foo", foo)
+      await store.set("bar", bar)
+      assert.deepEqual(await store.get("foo"), foo)
+      assert.deepEqual(await store.get("bar"), bar)
+    })
+
+    storeTest("not share session records with callers", async (store) => {
+      const sess = record({ foo: "bar", nested: { value: 1 } })
+      const expected = structuredClone(sess)
+      await store.set("foo", sess)
+      sess.foo = "baz"
+      const loaded = (await store.get("foo")) as SessionData<{ nested: { value: number } }>
+      loaded.nested.value = 2
+      assert.deepEqual(await store.get("foo"), expected)
+    })
+
+    storeTest("get null for expired session records", async (store) => {
+      await store.set("foo", record({ foo: "bar" }, -1000))
+      assert.equal((await store.get("foo")) ?? null, null)
+    })
+
+    storeTest("destroy session records", async (store) => {
+      await store.set("foo", record({ foo: "bar" }))
+      await store.set("bar", record({ foo: "bar" }))
+      await store.destroy("foo")
+      assert.equal((await store.get("foo")) ?? null, null)
+      assert.notEqual((await store.get("bar")) ?? null, null)
+      await store.destroy("missing")
+    })
+
+    storeTest("extend session records without altering their data when touched", async (store) => {
+      if (store.touch == null) return
+      await store.set("foo", record({ foo: "bar" }, 1000))
+      const touched = record({ foo: "bar" }, 120_000)
+      await store.touch("foo", touched)
+      assert.deepEqual(await store.get("foo"), touched)
+    })
+
+    storeTest("keep data and versions written since the touched session was loaded", async (store) => {
+      if (store.touch == null) return
+      await store.set("foo", record({ foo: "baz", __version: 2 }, 1000))
+      const touched = record({ foo: "bar", __version: 1 }, 120_000)
+      await store.touch("foo", touched)
+      assert.deepEqual(await store.get("foo"), { ...touched, foo: "baz", __version: 2 })
+    })
+
+    storeTest("set session records only if their version matches", async (store) => {
+      if (store.setIfVersion == null) return
+      assert.equal(await store.setIfVersion("foo", record({ __version: 1 }), 0), true)
+      assert.equal(await store.setIfVersion("foo", record({ __version: 1 }), 0), false)
+      assert.equal(await store.setIfVersion("foo", record({ __version: 2 }), 1), true)
+      assert.equal((await store.get("foo"))?.__version, 2)
+    })
+
+    storeTest("patch only the changed keys of session records", async (store) => {
+      if (store.patch == null) return
+      assert.equal(await store.patch("foo", { set: { foo: "baz" }, delete: [] }), false)
+      assert.equal((await store.get("foo")) ?? null, null)
+      const sess = record({ foo: "bar", keep: [1, 2], old: true })
+      await store.set("foo", sess)
+      assert.equal(await store.patch("foo", { set: { foo: "baz", added: { value: 1 } }, delete: ["old"] }), true)
+      assert.deepEqual(await store.get("foo"), { foo: "baz", keep: [1, 2], added: { value: 1 }, cookie: sess.cookie })
+    })
+
+    storeTest("prune expired session records", async (store) => {
+      if (store.prune == null) return
+      await store.set("foo", record({ foo: "bar" }, -1000))
+      await store.set("bar", record({ foo: "bar" }))
+      assert.equal(await store.prune(), 1)
+      assert.equal((await store.get("foo")) ?? null, null)
+      assert.notEqual((await store.get("bar")) ?? null, null)
+    })
+
+    storeTest("list and destroy session records by owner", async (store) => {
+      if (!isIndexed(store)) return
+      await store.set("foo", record({ __owner: "alice" }))
+      await store.set("bar", record({ __owner: "alice" }))
+      await store.set("baz", record({ __owner: "bob" }))
+      const sids = (await store.listByOwner("alice")).map(([sid]) => sid)
+      assert.deepEqual(sids.sort(), ["bar", "foo"])
+      assert.equal(await store.destroyByOwner("alice"), 2)
+      assert.deepEqual(await store.listByOwner("alice"), [])
+      assert.equal((await store.get("foo")) ?? null, null)
+      assert.notEqual((await store.get("baz")) ?? null, null)
+    })
+  })
+}
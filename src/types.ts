@@ -1,29 +1,127 @@
+import type { IncomingMessage } from "node:http"
 import type { SerializeOptions } from "@otterhttp/cookie"
 
-import { isDestroyed, isNew, isTouched } from "./symbol"
+import type CookieStore from "./cookie-store"
+import type {
+  bindingKey,
+  createdAtKey,
+  csrfKey,
+  flashKey,
+  lastActiveAtKey,
+  ownerKey,
+  schemaKey,
+  touchedAtKey,
+  versionKey,
+} from "./keys"
+import {
+  hasFlashChanges,
+  hasStaleSignature,
+  isDestroyed,
+  isDirty,
+  isNew,
+  isRegenerated,
+  isTouched,
+  sealedChunks,
+} from "./symbol"
 
 export type SessionRecord = Record<string, unknown>
 
 export type SessionData<T = SessionRecord> = {
   cookie: Cookie
+  /** Time the session was created, recorded if `options.absoluteTimeout` is set */
+  [createdAtKey]?: number | undefined
+  /** Time the session was last active, recorded if `options.idleTimeout` is set */
+  [lastActiveAtKey]?: number | undefined
+  /** Time the session was last touched, recorded if `options.touchAfter` is set */
+  [touchedAtKey]?: number | undefined
+  /** Key of the owner of the session, recorded if `options.owner` is set */
+  [ownerKey]?: string | undefined
+  /** Revision of the session record, incremented on commit if `options.conflict` is not `"last-write-wins"` */
+  [versionKey]?: number | undefined
+  /** Secret from which CSRF tokens are derived, recorded by `csrf()` */
+  [csrfKey]?: string | undefined
+  /** Version of the shape of the session data, recorded if `options.schemaVersion` or `options.migrations` is set */
+  [schemaKey]?: number | undefined
+  /** Hashed attributes of the client which created the session, recorded if `options.binding` is set */
+  [bindingKey]?: Record<string, string> | undefined
 } & T
 
+/**
+ * Flash messages by type. Declare `__flash` in the session's data type to type flash messages, e.g.
+ * `{ __flash?: { error?: string[] } }`.
+ */
+export type FlashMessages<T extends SessionRecord = SessionRecord> = T extends { [flashKey]?: infer F }
+  ? NonNullable<F>
+  : Record<string, unknown[]>
+
+type FlashMessage<T extends SessionRecord, K extends keyof FlashMessages<T>> = NonNullable<
+  FlashMessages<T>[K]
+> extends (infer M)[]
+  ? M
+  : never
+
 export type Session<T extends SessionRecord = SessionRecord> = {
   id: string
   touch(): Promise<void>
   commit(): Promise<void>
   destroy(): Promise<void>
+  regenerate(): Promise<void>
+  /**
+   * Whether the session was loaded by a client whose attributes do not match those the session is bound to.
+   * See `options.binding`.
+   */
+  suspicious: boolean
+  /**
+   * Whether the session record could not be read from the session store, so that the session is a new session which is
+   * never saved: `touch()`, `commit()`, `regenerate()` and `destroy()` reject with a `SessionStoreError`.
+   * See `options.readFailure`.
+   */
+  degraded: boolean
+  flash<K extends keyof FlashMessages<T> & string>(type: K, message: FlashMessage<T, K>): void
+  consumeFlash<K extends keyof FlashMessages<T> & string>(type: K): FlashMessage<T, K>[]
+  consumeFlash(): Partial<FlashMessages<T>>
   [isNew]?: boolean
   [isTouched]?: boolean
   [isDestroyed]?: boolean
+  [isRegenerated]?: boolean
+  [isDirty]?: boolean
+  [hasFlashChanges]?: boolean
+  [sealedChunks]?: string[]
+  [hasStaleSignature]?: boolean
 } & SessionData<T>
 
+type SessionMethod = "touch" | "commit" | "destroy" | "regenerate" | "flash" | "consumeFlash"
+
+/**
+ * Handle to a session which is loaded when it is first used. Reading a property of the handle resolves to the value of
+ * that property of the session, and calling a method of the handle calls that method of the session.
+ */
+export type LazySession<T extends SessionRecord = SessionRecord> = {
+  /**
+   * Loads the session, if it has not been loaded already.
+   */
+  load(): Promise<Session<T>>
+  touch(): Promise<void>
+  commit(): Promise<void>
+  destroy(): Promise<void>
+  regenerate(): Promise<void>
+  flash<K extends keyof FlashMessages<T> & string>(type: K, message: FlashMessage<T, K>): Promise<void>
+  consumeFlash<K extends keyof FlashMessages<T> & string>(type: K): Promise<FlashMessage<T, K>[]>
+  consumeFlash(): Promise<Partial<FlashMessages<T>>>
+} & {
+  readonly [K in Exclude<keyof Session<T>, symbol | SessionMethod | "load">]: Promise<Session<T>[K]>
+}
+
+type CookiePriority = "low" | "medium" | "high"
+
 type Cookie = {
   httpOnly: boolean
   path: string
   domain?: string | undefined | null
   secure: boolean
   sameSite?: boolean | "lax" | "strict" | "none" | undefined | null
+  partitioned?: boolean | undefined
+  priority?: CookiePriority | undefined
 } & (
   | { maxAge?: undefined | null; expires?: undefined | null }
   | {
@@ -34,23 +132,300 @@ type Cookie = {
 
 type SetCookieOptions = SerializeOptions & {
   /**
-   * `otterhttp` cookie `sign` function, will be passed to `res.cookie`.
+   * Specifies the **Partitioned** `Set-Cookie` attribute, which keeps the cookie in storage partitioned by top-level
+   * site (CHIPS), e.g. for sessions of embedded widgets. Requires `secure`.
+   * @default false
+   */
+  partitioned?: boolean | undefined
+  /**
+   * Specifies the value of the **Priority** `Set-Cookie` attribute.
+   * @default undefined
+   */
+  priority?: CookiePriority | undefined
+  /**
+   * Cookie `sign` function, will be used to sign session cookies (passed to `res.cookie` with `otterhttp`).
    * @default undefined
    */
   sign?: ((value: string) => string) | null | undefined
 }
 
+export interface Serializer {
+  serialize(sess: SessionData): string
+  deserialize(serialized: string): SessionData
+}
+
+/**
+ * The top-level keys of a session record which changed since it was loaded or last saved.
+ */
+export type SessionChanges = {
+  /** Keys which were added or modified, with their new values */
+  set: Record<string, unknown>
+  /** Keys which were deleted */
+  delete: string[]
+}
+
 export interface SessionStore {
   get(sid: string): Promise<SessionData | null | undefined>
   set(sid: string, sess: SessionData): Promise<void>
   destroy(sid: string): Promise<void>
+  /**
+   * Extends the expiry of the record of session `sid` to that of `sess`. Only the cookie and activity metadata of the
+   * stored record are updated, so that a concurrent write of its data or version is not undone.
+   */
   touch?(sid: string, sess: SessionData): Promise<void>
+  /**
+   * Atomically sets the session record associated with `sid` if the revision (`__version`) of the current record is
+   * `expectedVersion`, or if there is no current record and `expectedVersion` is `0`.
+   * @returns whether the record was set
+   */
+  setIfVersion?(sid: string, sess: SessionData, expectedVersion: number): Promise<boolean>
+  /**
+   * Applies `changes` to the session record associated with `sid`, leaving its other keys as they are.
+   * @returns whether the record was updated; `false` if there is no current record
+   */
+  patch?(sid: string, changes: SessionChanges): Promise<boolean>
+  /**
+   * Deletes all expired session records.
+   * @returns the number of deleted records
+   */
+  prune?(): Promise<number>
+}
+
+export type ConflictStrategy =
+  | "last-write-wins"
+  | "throw"
+  | {
+      /**
+       * Merges the session record committed by another request with the local session, returning the record to commit.
+       */
+      merge(stored: SessionData, local: SessionData): SessionData | Promise<SessionData>
+      /**
+       * The maximum number of times to retry committing after merging.
+       * @default 3
+       */
+      retries?: number | undefined
+    }
+
+/**
+ * How session IDs are exchanged with clients.
+ * - `"cookie"` uses the session cookie
+ * - `"bearer"` reads the `Authorization: Bearer <id>` request header, and returns the ID in the `Session-Token` response
+ *   header
+ * - `{ header }` uses a custom header, e.g. `{ header: "X-Session-Id" }`
+ */
+export type SessionTransport = "cookie" | "bearer" | { header: string }
+
+/**
+ * Schema which validates session data, compatible with the Standard Schema specification (https://standardschema.dev)
+ * implemented by e.g. Zod, Valibot and ArkType.
+ */
+export interface StandardSchema<Output = unknown> {
+  readonly "~standard": {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly output: Output } | undefined
+  }
+}
+
+type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<{ readonly message: string }> }
+
+/**
+ * Client attributes which sessions are bound to, and how sessions loaded by a client whose attributes do not match are
+ * handled.
+ */
+export type SessionBinding<Req = IncomingMessage, S = Session> = {
+  /**
+   * Whether sessions are bound to the client's `User-Agent` header.
+   * @default false
+   */
+  userAgent?: boolean | undefined
+  /**
+   * Whether sessions are bound to the client's IP address (`req.ip`), or the subnet of the given prefix lengths.
+   * @default false
+   */
+  ip?: boolean | { ipv4Prefix?: number | undefined; ipv6Prefix?: number | undefined } | undefined
+  /**
+   * Custom named attributes derived from the request, e.g. `{ tenant: (req) => req.headers["x-tenant"] }`.
+   * @default {}
+   */
+  values?: Record<string, (req: Req) => string | null | undefined> | undefined
+  /**
+   * How sessions loaded by a client whose attributes do not match are handled.
+   * - `"destroy"` destroys the session, and starts a new session in its place
+   * - `"flag"` sets `session.suspicious`
+   * - a function sets `session.suspicious`, then is called with the names of the mismatched attributes
+   * @default "destroy"
+   */
+  onMismatch?: "destroy" | "flag" | ((req: Req, session: S, attributes: string[]) => void | Promise<void>) | undefined
+}
+
+/**
+ * Upgrades session data from one schema version to the next.
+ */
+export type SessionMigration = (data: SessionRecord) => SessionRecord | Promise<SessionRecord>
+
+/**
+ * Lifecycle hook, or hooks which are awaited in order.
+ */
+export type SessionHook<Req, S, Reason extends string> =
+  | ((req: Req, session: S, reason: Reason) => void | Promise<void>)
+  | ((req: Req, session: S, reason: Reason) => void | Promise<void>)[]
+
+/**
+ * Session store which indexes session records by their owner (`sess.__owner`).
+ */
+export interface IndexedSessionStore extends SessionStore {
+  /**
+   * Gets all session records associated with `owner`, as `[sessionId, sessionRecord]` pairs.
+   */
+  listByOwner(owner: string): Promise<[string, SessionData][]>
+  /**
+   * Destroys all session records associated with `owner`.
+   * @returns the number of destroyed records
+   */
+  destroyByOwner(owner: string): Promise<number>
 }
 
-export interface Options {
-  store?: SessionStore | undefined
+export interface Options<T extends SessionRecord = SessionRecord, Req extends IncomingMessage = IncomingMessage> {
+  /**
+   * The session store used to persist session records.
+   * A {@link CookieStore} keeps session records in the session cookie itself instead.
+   * @default new MemoryStore()
+   */
+  store?: SessionStore | CookieStore | undefined
   genid?: (() => string) | undefined
+  /**
+   * Transport(s) through which session IDs are exchanged with clients. Session IDs are read from each transport in
+   * order; they are returned to the client through the transport they were read from, or through the first transport
+   * for new sessions.
+   *
+   * A {@link CookieStore} only supports the `"cookie"` transport.
+   * @default "cookie"
+   */
+  transport?: SessionTransport | SessionTransport[] | undefined
+  /**
+   * Secret(s) used to sign session IDs with HMAC-SHA256. Session IDs are signed using the first secret, and verified
+   * against each secret in order; cookies signed using any other secret are re-issued, signed using the first.
+   *
+   * Takes precedence over `cookie.sign` and `cookie.unsign`.
+   * @default undefined
+   */
+  secret?: string | string[] | undefined
+  /**
+   * Derives the key of the owner of a session (e.g. a user ID) from its data. The owner key is recorded in the session
+   * record when the session is committed, so that sessions can be listed and destroyed by owner.
+   * @default undefined
+   */
+  owner?: ((sess: SessionData) => string | null | undefined) | undefined
+  /**
+   * How `session.commit()` handles session records modified by another request since the session was loaded.
+   * - `"last-write-wins"` overwrites the record
+   * - `"throw"` throws a `SessionConflictError`
+   * - `{ merge }` merges the records using `merge`, then retries
+   *
+   * Strategies other than `"last-write-wins"` require a store which implements `setIfVersion`.
+   * @default "last-write-wins"
+   */
+  conflict?: ConflictStrategy | undefined
   touchAfter?: number | undefined
+  /**
+   * Schema against which loaded session data is validated, after any migrations. Session records which fail
+   * validation are destroyed, and a new session is started in their place.
+   * The cookie, metadata, flash messages and CSRF secret are not validated.
+   * @default undefined
+   */
+  schema?: StandardSchema<T> | undefined
+  /**
+   * Version of the shape of session data, recorded in session records (`__schema`). Records without a version are
+   * version `0`.
+   * @default migrations.length
+   */
+  schemaVersion?: number | undefined
+  /**
+   * Migrations which upgrade loaded session data to `schemaVersion`; `migrations[n]` upgrades data from version `n`
+   * to version `n + 1`. Session records which cannot be upgraded, including those for which a migration throws, are
+   * destroyed, and a new session is started in their place.
+   * @default []
+   */
+  migrations?: SessionMigration[] | undefined
+  /**
+   * Binds sessions to attributes of the client which created them, so that session IDs used by another client can be
+   * detected.
+   * @default undefined
+   */
+  binding?: SessionBinding<Req, Session<T>> | undefined
+  /**
+   * How failures to read the session record from the session store are handled.
+   * - `"fail"` rejects with a `SessionStoreError`
+   * - `"degrade"` continues with a new session which sets `session.degraded`. Degraded sessions are never saved (their
+   *   methods which write to the store reject with a `SessionStoreError`), and the session ID sent by the client is
+   *   left in place.
+   * @default "fail"
+   */
+  readFailure?: "fail" | "degrade" | undefined
+  /**
+   * Top-level session keys which grant privileges, e.g. `userId` or `role`.
+   * When `session.commit()` finds any of their values changed since the session was loaded, the session ID is
+   * regenerated before the record is saved.
+   * @default []
+   */
+  regenerateOnChange?: string[] | undefined
+  /**
+   * Whether modified sessions should be committed automatically when `res.end()` is called. The response is ended once
+   * the commit has finished, or destroyed with the error if it fails.
+   * Modifications are tracked on the session object, including data nested in plain objects and arrays; unmodified
+   * sessions are not committed.
+   * @default false
+   */
+  autoCommit?: boolean | undefined
+  /**
+   * Time **(in seconds)** after which a session which has not been active expires.
+   * Activity is recorded when the session is committed or touched, so the session store must implement `touch` (or
+   * `setIfVersion`, if `options.conflict` is not `"last-write-wins"`).
+   * @default undefined
+   */
+  idleTimeout?: number | undefined
+  /**
+   * Time **(in seconds)** after the session was created at which it expires, regardless of activity.
+   * `session.touch()` never extends the session beyond this limit.
+   * @default undefined
+   */
+  absoluteTimeout?: number | undefined
+  /**
+   * Called when a new session is started, because no session ID was sent (`"new"`), no session record was found for
+   * the session ID sent (`"unknown"`), the session record had expired (`"expired"`), the session record could not be
+   * migrated or failed validation (`"invalid"`), the session was loaded by a client whose attributes do not match
+   * `binding` (`"mismatch"`), or the session record could not be read from the session store (`"degraded"`).
+   */
+  onCreate?:
+    | SessionHook<Req, Session<T>, "new" | "unknown" | "expired" | "invalid" | "mismatch" | "degraded">
+    | undefined
+  /**
+   * Called when an existing session is loaded.
+   */
+  onLoad?: SessionHook<Req, Session<T>, "load"> | undefined
+  /**
+   * Called after the session record is saved by `session.commit()` (`"commit"`), or saved under a new session ID by
+   * `session.regenerate()` (`"regenerate"`).
+   */
+  onCommit?: SessionHook<Req, Session<T>, "commit" | "regenerate"> | undefined
+  /**
+   * Called after the session is touched by `session.touch()` (`"touch"`), because `touchAfter` was satisfied
+   * (`"touchAfter"`), or to persist activity counted by `idleTimeout` (`"activity"`).
+   */
+  onTouch?: SessionHook<Req, Session<T>, "touch" | "touchAfter" | "activity"> | undefined
+  /**
+   * Called after the session is destroyed by `session.destroy()`.
+   */
+  onDestroy?: SessionHook<Req, Session<T>, "destroy"> | undefined
+  /**
+   * Called with the session record of a session which exceeded `idleTimeout` or `absoluteTimeout`, after it is
+   * destroyed. A new session is started in its place.
+   */
+  onExpired?: SessionHook<Req, SessionData<T>, "idleTimeout" | "absoluteTimeout"> | undefined
   cookie?:
     | (SetCookieOptions & {
         name?: string | null | undefined
@@ -1,22 +1,155 @@
-import type { Request, Response } from "@otterhttp/app"
+import type { IncomingMessage, ServerResponse } from "node:http"
 
-import type { Options, Session } from "./types"
+import { setCookie } from "./http"
+import { lifetimeKeys, metadataKeys } from "./keys"
+import { defaultSerializer } from "./serializer"
+import type { Options, SessionChanges, SessionData, SessionTransport } from "./types"
 
-export function appendSessionCookieHeader<Req extends Request = Request, Res extends Response<Req> = Response<Req>>(
-  res: Res,
+type HeaderTransport = Exclude<SessionTransport, "cookie">
+
+/** Response header through which the `"bearer"` transport returns session IDs */
+const bearerResponseHeader = "Session-Token"
+
+function headerName(transport: HeaderTransport) {
+  return transport === "bearer" ? "authorization" : transport.header.toLowerCase()
+}
+
+/**
+ * Reads the session ID sent through a header transport, if any.
+ */
+export function readSessionHeader(req: IncomingMessage, transport: HeaderTransport) {
+  const header = req.headers[headerName(transport)]
+  const value = Array.isArray(header) ? header[0] : header
+  if (value == null || value === "") return null
+  if (transport !== "bearer") return value
+  return /^Bearer +(\S+)$/i.exec(value)?.[1] ?? null
+}
+
+/**
+ * Returns the session ID to the client through a header transport. An empty `value` tells the client to discard its
+ * session ID. `Authorization` is a request header, so the `"bearer"` transport returns the session ID through the
+ * `Session-Token` response header instead.
+ */
+export function setSessionHeader(res: ServerResponse, transport: HeaderTransport, value: string) {
+  if (res.headersSent) return
+  res.setHeader(transport === "bearer" ? bearerResponseHeader : transport.header, value)
+}
+
+export function appendSessionCookieHeader(
+  res: ServerResponse,
   name: string,
-  { cookie, id }: Pick<Session, "cookie" | "id">,
+  value: string,
+  cookie: Omit<SessionData["cookie"], "maxAge">,
   { encode, sign }: Pick<Exclude<Options["cookie"], undefined>, "encode" | "sign">,
 ) {
   if (res.headersSent) return
-  res.cookie(name, id, {
+  setCookie(res, name, value, {
     path: cookie.path,
     httpOnly: cookie.httpOnly,
     expires: cookie.expires,
     domain: cookie.domain,
     sameSite: cookie.sameSite,
     secure: cookie.secure,
+    partitioned: cookie.partitioned,
+    priority: cookie.priority,
     encode,
     sign,
   })
 }
+
+function isTrackable(value: unknown): value is object {
+  if (value == null || typeof value !== "object") return false
+  if (Array.isArray(value)) return true
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+function isTracked(key: string | symbol, isRoot: boolean) {
+  return typeof key !== "symbol" && !(isRoot && metadataKeys.includes(key))
+}
+
+/**
+ * Wraps `session` in a proxy which calls `onChange` whenever session data is modified, including data nested in plain
+ * objects and arrays. Modifications to `session.cookie`, to metadata and to symbol-keyed properties are not reported,
+ * since they are made by the library itself.
+ */
+export function trackChanges<T extends object>(session: T, onChange: () => void): T {
+  const proxies = new WeakMap<object, object>()
+
+  function track<U extends object>(target: U, isRoot: boolean): U {
+    const existing = proxies.get(target)
+    if (existing != null) return existing as U
+
+    const proxy = new Proxy(target, {
+      get(target, key, receiver) {
+        const value = Reflect.get(target, key, receiver)
+        if (isRoot && key === "cookie") return value
+        return isTrackable(value) ? track(value, false) : value
+      },
+      set(target, key, value, receiver) {
+        if (isTracked(key, isRoot)) onChange()
+        return Reflect.set(target, key, value, receiver)
+      },
+      deleteProperty(target, key) {
+        if (isTracked(key, isRoot)) onChange()
+        return Reflect.deleteProperty(target, key)
+      },
+    })
+    proxies.set(target, proxy)
+    return proxy
+  }
+
+  return track(session, true)
+}
+
+/**
+ * Awaits each of `hooks` in order.
+ */
+export async function runHooks<Args extends unknown[]>(
+  hooks: ((...args: Args) => void | Promise<void>) | ((...args: Args) => void | Promise<void>)[] | undefined,
+  ...args: Args
+) {
+  if (hooks == null) return
+  for (const hook of Array.isArray(hooks) ? hooks : [hooks]) await hook(...args)
+}
+
+/**
+ * Applies the expiry and activity of `session` to its stored record `stored`, without altering the record's data.
+ */
+export function touchedRecord(stored: SessionData, session: SessionData): SessionData {
+  const touched = { ...stored }
+  for (const key of lifetimeKeys) if (key in session) touched[key] = session[key]
+  return touched
+}
+
+/**
+ * Whether `session` holds any data other than its cookie and metadata.
+ */
+export function isPopulated(session: SessionData) {
+  return Object.keys(session).some((key) => key !== "cookie" && !metadataKeys.includes(key))
+}
+
+function encodeKey(session: SessionData, key: string) {
+  return defaultSerializer.serialize({ [key]: session[key] } as SessionData)
+}
+
+/**
+ * Encodes each top-level key of `session`, so that later changes can be found using `changesSince`.
+ */
+export function snapshotKeys(session: SessionData): Map<string, string> {
+  return new Map(Object.keys(session).map((key) => [key, encodeKey(session, key)]))
+}
+
+/**
+ * Gets the top-level keys of `session` which were added, modified or deleted since `snapshot` was taken.
+ */
+export function changesSince(snapshot: Map<string, string>, session: SessionData): SessionChanges {
+  const changes: SessionChanges = { set: {}, delete: [] }
+  for (const key of Object.keys(session)) {
+    if (snapshot.get(key) !== encodeKey(session, key)) changes.set[key] = session[key]
+  }
+  for (const key of snapshot.keys()) {
+    if (!Object.hasOwn(session, key)) changes.delete.push(key)
+  }
+  return changes
+}
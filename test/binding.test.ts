@@ -0,0 +1,27 @@
+import { describe, expect, test } from "vitest"
+
+import { mismatchedAttributes, subnetOf } from "../src/binding"
+
+describe("subnetOf()", () => {
+  test("mask IPv4 addresses", () => {
+    expect(subnetOf("192.168.1.7", 32, 128)).toEqual("192.168.1.7/32")
+    expect(subnetOf("192.168.1.7", 24, 128)).toEqual("192.168.1.0/24")
+    expect(subnetOf("192.168.1.7", 12, 128)).toEqual("192.160.0.0/12")
+    expect(subnetOf("::ffff:192.168.1.7", 16, 128)).toEqual("192.168.0.0/16")
+  })
+
+  test("mask IPv6 addresses", () => {
+    expect(subnetOf("2001:db8::1", 128, 64)).toEqual(subnetOf("2001:db8:0:0:ffff::", 128, 64))
+    expect(subnetOf("2001:db8::1", 128, 64)).not.toEqual(subnetOf("2001:db8:0:1::1", 128, 64))
+    expect(subnetOf("2001:db8::1", 128, 128)).not.toEqual(subnetOf("2001:db8::2", 128, 128))
+    expect(subnetOf("::1", 128, 128)).toEqual(subnetOf("0:0:0:0:0:0:0:1", 128, 128))
+  })
+})
+
+describe("mismatchedAttributes()", () => {
+  test("compare recorded attributes only", () => {
+    expect(mismatchedAttributes({ ip: "a", userAgent: "b" }, { ip: "a", userAgent: "c", tenant: "d" })).toEqual([
+      "userAgent",
+    ])
+  })
+})
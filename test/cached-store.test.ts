@@ -0,0 +1,163 @@
+import { describe, expect, test, vi } from "vitest"
+
+import CachedStore from "../src/cached-store"
+import MemoryStore from "../src/memory-store"
+import { testSessionStore } from "../src/testing"
+import type { SessionData, SessionStore } from "../src/types"
+
+const cookie = { httpOnly: true, path: "/", secure: false }
+
+function countingStore() {
+  const backend = new MemoryStore({ sweepInterval: 0 })
+  const get = vi.spyOn(backend, "get")
+  return { backend, get }
+}
+
+describe("CachedStore", () => {
+  testSessionStore({ describe, test, createStore: () => new CachedStore(new MemoryStore({ sweepInterval: 0 })) })
+
+  test("serve repeated gets from the cache", async () => {
+    const { backend, get } = countingStore()
+    const store = new CachedStore(backend)
+    await backend.set("foo", { foo: "bar", cookie })
+    expect(await store.get("foo")).toEqual({ foo: "bar", cookie })
+    expect(await store.get("foo")).toEqual({ foo: "bar", cookie })
+    expect(get).toHaveBeenCalledTimes(1)
+  })
+
+  test("never share session objects between callers", async () => {
+    const store = new CachedStore(new MemoryStore({ sweepInterval: 0 }))
+    await store.set("foo", { foo: "bar", cookie })
+    const session = await store.get("foo")
+    if (session) session.foo = "baz"
+    expect(await store.get("foo")).toEqual({ foo: "bar", cookie })
+  })
+
+  test("coalesce concurrent gets for the same session", async () => {
+    const { backend, get } = countingStore()
+    const store = new CachedStore(backend)
+    await backend.set("foo", { foo: "bar", cookie })
+    const sessions = await Promise.all([store.get("foo"), store.get("foo"), store.get("foo")])
+    expect(sessions).toEqual([
+      { foo: "bar", cookie },
+      { foo: "bar", cookie },
+      { foo: "bar", cookie },
+    ])
+    expect(sessions[0]).not.toBe(sessions[1])
+    expect(get).toHaveBeenCalledTimes(1)
+  })
+
+  test("write through on set", async () => {
+    const { backend, get } = countingStore()
+    const store = new CachedStore(backend)
+    await store.set("foo", { foo: "bar", cookie })
+    expect(await backend.get("foo")).toEqual({ foo: "bar", cookie })
+    get.mockClear()
+    expect(await store.get("foo")).toEqual({ foo: "bar", cookie })
+    expect(get).not.toHaveBeenCalled()
+  })
+
+  test("invalidate on touch", async () => {
+    const { backend, get } = countingStore()
+    const store = new CachedStore(backend)
+    await store.set("foo", { foo: "bar", cookie })
+    const expires = new Date(Date.now() + 60_000)
+    await store.touch?.("foo", { foo: "baz", cookie: { ...cookie, maxAge: 60, expires } })
+    get.mockClear()
+    expect(await store.get("foo")).toEqual({ foo: "bar", cookie: { ...cookie, maxAge: 60, expires } })
+    expect(get).toHaveBeenCalledOnce()
+  })
+
+  test("not touch if the wrapped store cannot", () => {
+    const backend = new MemoryStore({ sweepInterval: 0 })
+    expect(new CachedStore({ get: backend.get, set: backend.set, destroy: backend.destroy }).touch).toBeUndefined()
+  })
+
+  test("invalidate on destroy", async () => {
+    const store = new CachedStore(new MemoryStore({ sweepInterval: 0 }))
+    await store.set("foo", { foo: "bar", cookie })
+    await store.destroy("foo")
+    expect(await store.get("foo")).toEqual(null)
+  })
+
+  test("do not cache a read which raced with a write", async () => {
+    let resolveGet: (sess: SessionData | null) => void = () => {}
+    const backend: SessionStore = {
+      get: () =>
+        new Promise((resolve) => {
+          resolveGet = resolve
+        }),
+      set: async () => {},
+      destroy: async () => {},
+    }
+    const store = new CachedStore(backend)
+    const stale = store.get("foo")
+    await store.set("foo", { foo: "baz", cookie })
+    resolveGet({ foo: "bar", cookie })
+    expect(await stale).toEqual({ foo: "bar", cookie })
+    expect(await store.get("foo")).toEqual({ foo: "baz", cookie })
+  })
+
+  test("do not cache a read which started while a write was in flight", async () => {
+    let resolveGet: (sess: SessionData | null) => void = () => {}
+    let resolveSet: () => void = () => {}
+    const backend: SessionStore = {
+      get: () =>
+        new Promise((resolve) => {
+          resolveGet = resolve
+        }),
+      set: () =>
+        new Promise((resolve) => {
+          resolveSet = resolve
+        }),
+      destroy: async () => {},
+    }
+    const store = new CachedStore(backend)
+    const write = store.set("foo", { foo: "baz", cookie })
+    const stale = store.get("foo")
+    resolveSet()
+    await write
+    resolveGet({ foo: "bar", cookie })
+    expect(await stale).toEqual({ foo: "bar", cookie })
+    backend.get = async () => ({ foo: "baz", cookie })
+    expect(await store.get("foo")).toEqual({ foo: "baz", cookie })
+  })
+
+  test("expire cached records after ttl", async () => {
+    vi.useFakeTimers()
+    try {
+      const { backend, get } = countingStore()
+      const store = new CachedStore(backend, { ttl: 5 })
+      await store.set("foo", { foo: "bar", cookie })
+      await store.get("foo")
+      expect(get).not.toHaveBeenCalled()
+      vi.advanceTimersByTime(5000)
+      await store.get("foo")
+      expect(get).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  test("evict least recently used records", async () => {
+    const store = new CachedStore(new MemoryStore({ sweepInterval: 0 }), { maxEntries: 2 })
+    await store.set("foo", { cookie })
+    await store.set("bar", { cookie })
+    await store.get("foo")
+    await store.set("baz", { cookie })
+    expect([...store.cache.keys()]).toEqual(["foo", "baz"])
+  })
+
+  test("expose optional capabilities of the wrapped store", async () => {
+    const store = new CachedStore(new MemoryStore({ sweepInterval: 0 }))
+    expect(store.setIfVersion).toBeTypeOf("function")
+    await store.set("foo", { __owner: "alice", cookie })
+    await store.get("foo")
+    expect(await store.destroyByOwner?.("alice")).toEqual(1)
+    expect(await store.get("foo")).toEqual(null)
+
+    const plain = new CachedStore({ get: async () => null, set: async () => {}, destroy: async () => {} })
+    expect(plain.setIfVersion).toBeUndefined()
+    expect(plain.listByOwner).toBeUndefined()
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "vitest"
+
+import CookieStore, { chunkName } from "../src/cookie-store"
+
+const cookie = { httpOnly: true, path: "/", secure: false }
+
+describe("CookieStore", () => {
+  test("seal and unseal session", () => {
+    const store = new CookieStore({ keys: "keyboard cat" })
+    const sealed = store.seal("foo", { foo: "bar", cookie })
+    expect(sealed).not.toContain("bar")
+    expect(store.unseal(sealed)).toEqual({ id: "foo", data: { foo: "bar", cookie } })
+  })
+
+  test("unseal session sealed with a rotated key", () => {
+    const oldStore = new CookieStore({ keys: "old secret" })
+    const store = new CookieStore({ keys: ["new secret", "old secret"] })
+    const sealed = oldStore.seal("foo", { foo: "bar", cookie })
+    expect(store.unseal(sealed)).toEqual({ id: "foo", data: { foo: "bar", cookie } })
+    expect(new CookieStore({ keys: "new secret" }).unseal(sealed)).toEqual(null)
+  })
+
+  test("get null if sealed session is tampered with", () => {
+    const store = new CookieStore({ keys: "keyboard cat" })
+    const sealed = store.seal("foo", { foo: "bar", cookie })
+    const tampered = Buffer.from(sealed, "base64url")
+    tampered[tampered.length - 1] ^= 1
+    expect(store.unseal(tampered.toString("base64url"))).toEqual(null)
+    expect(store.unseal("garbage")).toEqual(null)
+  })
+
+  test("get null if sealed session is expired", () => {
+    const store = new CookieStore({ keys: "keyboard cat" })
+    const sealed = store.seal("foo", {
+      foo: "bar",
+      cookie: { ...cookie, maxAge: 10, expires: new Date(Date.now() - 1) },
+    })
+    expect(store.unseal(sealed)).toEqual(null)
+  })
+
+  test("split sealed session into chunks", () => {
+    const store = new CookieStore({ keys: "keyboard cat", maxCookieSize: 100 })
+    const sealed = "a".repeat(250)
+    const chunks = store.split("sid", sealed)
+    expect(chunks.join("")).toEqual(sealed)
+    chunks.forEach((chunk, index) => {
+      expect(`${chunkName("sid", index)}=${chunk}`.length).toBeLessThanOrEqual(100)
+    })
+    expect(() => store.split("sid", "a".repeat(1000))).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,86 @@
+import { App, type Request as OtterRequest, type Response as OtterResponse } from "@otterhttp/app"
+import { describe, expect, test } from "vitest"
+
+import { makeFetch } from "./make-fetch"
+
+import csrf from "@/csrf"
+import { CsrfError } from "@/errors"
+import MemoryStore from "@/memory-store"
+import session from "@/session"
+import type { Session } from "@/types"
+
+type Request = OtterRequest & { session?: Session<Record<string, unknown>> | undefined }
+type Response<Req extends Request = Request> = OtterResponse<Req>
+
+function setup(options: Parameters<typeof csrf>[1] = {}) {
+  const store = new MemoryStore({ sweepInterval: 0 })
+  const protect = csrf(session({ store }), options)
+  const app = new App<Request, Response>()
+  const errors: unknown[] = []
+  app.use(async (req: Request, res: Response) => {
+    let token: string
+    try {
+      token = await protect(req, res)
+    } catch (err) {
+      errors.push(err)
+      res.statusCode = (err as CsrfError).status
+      res.end()
+      return
+    }
+    res.end(token)
+  })
+  return { store, errors, fetch: makeFetch(app.listen()) }
+}
+
+describe("csrf()", () => {
+  test("issue tokens bound to the session", async () => {
+    const { store, fetch } = setup()
+    const res1 = await fetch("/")
+    const token = await res1.text()
+    const cookie = res1.headers.getSetCookie()[0].split(";")[0]
+    const sid = cookie.slice("sid=".length)
+    expect(typeof (await store.get(sid))?.__csrf).toBe("string")
+
+    const res2 = await fetch("/", { method: "POST", headers: { cookie, "x-csrf-token": token } })
+    expect(res2.status).toBe(200)
+    const otherToken = await res2.text()
+    expect(otherToken).not.toEqual(token)
+
+    const res3 = await fetch("/", { method: "DELETE", headers: { cookie, "x-csrf-token": otherToken } })
+    expect(res3.status).toBe(200)
+  })
+
+  test("reject unsafe requests without a valid token", async () => {
+    const { errors, fetch } = setup()
+    const res1 = await fetch("/")
+    await res1.text()
+    const cookie = res1.headers.getSetCookie()[0].split(";")[0]
+
+    const res2 = await fetch("/", { method: "POST", headers: { cookie } })
+    expect(res2.status).toBe(403)
+    const res3 = await fetch("/", { method: "POST", headers: { cookie, "x-csrf-token": "foo.bar" } })
+    expect(res3.status).toBe(403)
+
+    // Tokens issued for another session are rejected
+    const res4 = await fetch("/")
+    const res5 = await fetch("/", { method: "POST", headers: { cookie, "x-csrf-token": await res4.text() } })
+    expect(res5.status).toBe(403)
+
+    const res6 = await fetch("/", { method: "POST" })
+    expect(res6.status).toBe(403)
+    expect(errors).toHaveLength(4)
+    expect(errors[0]).toBeInstanceOf(CsrfError)
+  })
+
+  test("read tokens using options.getToken", async () => {
+    const { fetch } = setup({ getToken: (req) => new URL(req.url ?? "", "http://localhost").searchParams.get("token") })
+    const res1 = await fetch("/")
+    const token = await res1.text()
+    const cookie = res1.headers.getSetCookie()[0].split(";")[0]
+
+    const res2 = await fetch(`/?token=${token}`, { method: "POST", headers: { cookie } })
+    expect(res2.status).toBe(200)
+    const res3 = await fetch("/", { method: "POST", headers: { cookie, "x-csrf-token": token } })
+    expect(res3.status).toBe(403)
+  })
+})
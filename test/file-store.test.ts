@@ -0,0 +1,75 @@
+import { mkdtemp, readdir, rm, utimes } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { dirname, join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+
+import FileStore from "../src/file-store"
+import { testSessionStore } from "../src/testing"
+
+const cookie = { httpOnly: true, path: "/", secure: false }
+
+describe("FileStore", () => {
+  testSessionStore({
+    describe,
+    test,
+    createStore: async () => new FileStore(await mkdtemp(join(tmpdir(), "otterhttp-session-"))),
+    destroyStore: async (store) => await rm(store.directory, { recursive: true, force: true }),
+  })
+
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "otterhttp-session-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  test("get session from store", async () => {
+    const store = new FileStore(join(directory, "sessions"))
+    const expires = new Date(Date.now() + 10000)
+    await store.set("foo", { foo: "bar", cookie: { ...cookie, maxAge: 10, expires } })
+    const session = await store.get("foo")
+    expect(session).toEqual({ foo: "bar", cookie: { ...cookie, maxAge: 10, expires } })
+    expect(session?.cookie.expires).toBeInstanceOf(Date)
+    expect(await store.get("fuz")).toEqual(null)
+    expect(await readdir(join(directory, "sessions"))).toEqual(["foo.json"])
+  })
+
+  test("keep session files within the directory", async () => {
+    const store = new FileStore(directory)
+    for (const sid of ["../foo", "/etc/passwd", "foo/../../bar", "%2e%2e"]) {
+      expect(dirname(store.path(sid))).toEqual(directory)
+      await store.set(sid, { foo: sid, cookie })
+      expect(await store.get(sid)).toEqual({ foo: sid, cookie })
+    }
+    expect(await readdir(directory)).toHaveLength(4)
+  })
+
+  test("get null if session is expired", async () => {
+    const store = new FileStore(directory)
+    await store.set("foo", { foo: "bar", cookie: { ...cookie, maxAge: 10, expires: new Date(Date.now() - 1) } })
+    expect(await store.get("foo")).toEqual(null)
+    expect(await readdir(directory)).toEqual([])
+  })
+
+  test("destroy session", async () => {
+    const store = new FileStore(directory)
+    await store.set("foo", { foo: "bar", cookie })
+    await store.destroy("foo")
+    await store.destroy("foo")
+    expect(await store.get("foo")).toEqual(null)
+  })
+
+  test("prune expired sessions", async () => {
+    const store = new FileStore(directory, { ttl: 10 })
+    await store.set("foo", { cookie: { ...cookie, maxAge: 10, expires: new Date(Date.now() - 1) } })
+    await store.set("bar", { cookie: { ...cookie, maxAge: 10, expires: new Date(Date.now() + 10000) } })
+    await store.set("baz", { cookie })
+    const lastModified = new Date(Date.now() - 11000)
+    await utimes(store.path("baz"), lastModified, lastModified)
+    await expect(store.prune()).resolves.toEqual(2)
+    expect(await readdir(directory)).toEqual(["bar.json"])
+  })
+})
@@ -1,6 +1,8 @@
 import assert from "node:assert"
 import session from "@otterhttp/session"
+import { testSessionStore } from "@otterhttp/session/testing"
 
 assert(session)
+assert(testSessionStore)
 
 session()
@@ -0,0 +1,54 @@
+import { MemoryLevel } from "memory-level"
+import { describe, expect, test } from "vitest"
+
+import LevelStore from "../src/level-store"
+import { testSessionStore } from "../src/testing"
+
+const cookie = { httpOnly: true, path: "/", secure: false }
+
+describe("LevelStore", () => {
+  testSessionStore({ describe, test, createStore: () => new LevelStore(new MemoryLevel()) })
+
+  test("get session from store", async () => {
+    const store = new LevelStore(new MemoryLevel())
+    const expires = new Date(Date.now() + 10000)
+    await store.set("foo", { foo: "bar", cookie: { ...cookie, maxAge: 10, expires } })
+    const session = await store.get("foo")
+    expect(session).toEqual({ foo: "bar", cookie: { ...cookie, maxAge: 10, expires } })
+    expect(session?.cookie.expires).toBeInstanceOf(Date)
+    expect(await store.get("fuz")).toEqual(null)
+  })
+
+  test("keep session records in the configured sublevel", async () => {
+    const db = new MemoryLevel()
+    await new LevelStore(db, { sublevel: "foo" }).set("foo", { foo: "bar", cookie })
+    expect(await new LevelStore(db, { sublevel: "foo" }).get("foo")).toEqual({ foo: "bar", cookie })
+    expect(await new LevelStore(db).get("foo")).toEqual(null)
+    expect(await new LevelStore(db, { sublevel: null }).get("foo")).toEqual(null)
+  })
+
+  test("get null if session is expired", async () => {
+    const store = new LevelStore(new MemoryLevel())
+    await store.set("foo", { foo: "bar", cookie: { ...cookie, maxAge: 10, expires: new Date(Date.now() - 1) } })
+    expect(await store.get("foo")).toEqual(null)
+    expect(await store.records.get("foo")).toBeUndefined()
+  })
+
+  test("destroy session", async () => {
+    const store = new LevelStore(new MemoryLevel())
+    await store.set("foo", { foo: "bar", cookie })
+    await store.destroy("foo")
+    expect(await store.get("foo")).toEqual(null)
+  })
+
+  test("prune expired sessions", async () => {
+    const store = new LevelStore(new MemoryLevel(), { ttl: 10 })
+    await store.set("foo", { cookie: { ...cookie, maxAge: 10, expires: new Date(Date.now() - 1) } })
+    await store.set("bar", { cookie: { ...cookie, maxAge: 10, expires: new Date(Date.now() + 10000) } })
+    await store.set("baz", { cookie })
+    await store.expiries.put("baz", Date.now() - 1)
+    await expect(store.prune()).resolves.toEqual(2)
+    expect(await store.records.keys().all()).toEqual(["bar"])
+    expect(await store.expiries.keys().all()).toEqual(["bar"])
+  })
+})
@@ -1,60 +1,95 @@
-import { describe, expect, test } from "vitest"
+import { describe, expect, test, vi } from "vitest"
 
 import MemoryStore from "../src/memory-store"
+import { testSessionStore } from "../src/testing"
 
 describe("MemoryStore", () => {
-  test("get session from store", async () => {
-    const store = new MemoryStore()
-    store.store.set("foo", JSON.stringify({ foo: "bar", cookie: {} }))
-    expect(await store.get("foo")).toEqual({ foo: "bar", cookie: {} })
-    expect(await store.get("fuz")).toEqual(null)
+  testSessionStore({ describe, test, createStore: () => new MemoryStore({ sweepInterval: 0 }) })
+
+  test("evict least recently used sessions if maxEntries is exceeded", async () => {
+    const store = new MemoryStore({ maxEntries: 2 })
+    await store.set("foo", { cookie: {} as any })
+    await store.set("bar", { cookie: {} as any })
+    await store.get("foo")
+    await store.set("baz", { cookie: {} as any })
+    expect(store.size).toBe(2)
+    expect([...store.store.keys()]).toEqual(["foo", "baz"])
   })
 
-  test("get null if session is expired", async () => {
-    const store = new MemoryStore()
-    store.store.set(
-      "foo",
-      JSON.stringify({
-        foo: "bar",
-        cookie: { expires: new Date(Date.now() - 1) },
-      }),
-    )
-    expect(await store.get("foo")).toEqual(null)
-    expect(store.store.has("foo")).toBe(false)
+  test("expire browser-session sessions after ttl", async () => {
+    vi.useFakeTimers()
+    try {
+      const store = new MemoryStore({ ttl: 10, sweepInterval: 0 })
+      await store.set("foo", { cookie: {} as any })
+      vi.advanceTimersByTime(5000)
+      expect(await store.get("foo")).toEqual({ cookie: {} })
+      vi.advanceTimersByTime(9000)
+      expect(await store.get("foo")).toEqual({ cookie: {} })
+      vi.advanceTimersByTime(10000)
+      expect(await store.get("foo")).toEqual(null)
+    } finally {
+      vi.useRealTimers()
+    }
   })
 
-  test("set session to store", async () => {
+  test("sweep expired sessions periodically", async () => {
+    vi.useFakeTimers()
+    try {
+      const store = new MemoryStore({ sweepInterval: 1 })
+      await store.set("foo", { cookie: { expires: new Date(Date.now() + 500) } as any })
+      await store.set("bar", { cookie: { expires: new Date(Date.now() + 5000) } as any })
+      await vi.advanceTimersByTimeAsync(1000)
+      expect([...store.store.keys()]).toEqual(["bar"])
+      store.dispose()
+      await vi.advanceTimersByTimeAsync(5000)
+      expect([...store.store.keys()]).toEqual(["bar"])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  test("prune expired sessions", async () => {
     const store = new MemoryStore()
+    await store.set("foo", { cookie: { expires: new Date(Date.now() - 1) } as any })
+    await store.set("bar", { cookie: {} as any })
+    await expect(store.prune()).resolves.toBe(1)
+    expect(store.size).toBe(1)
+    await store.clear()
+    expect(store.size).toBe(0)
+    await store[Symbol.asyncDispose]()
+  })
+
+  test("use custom serializer", async () => {
+    const serializer = {
+      serialize: vi.fn((sess) => `custom:${JSON.stringify(sess)}`),
+      deserialize: vi.fn((serialized: string) => JSON.parse(serialized.slice(7))),
+    }
+    const store = new MemoryStore({ serializer })
     await store.set("foo", { foo: "bar", cookie: {} as any })
-    expect(store.store.get("foo")).toEqual(JSON.stringify({ foo: "bar", cookie: {} }))
+    expect(store.store.get("foo")).toEqual(`custom:${JSON.stringify({ foo: "bar", cookie: {} })}`)
+    expect(await store.get("foo")).toEqual({ foo: "bar", cookie: {} })
+    expect(serializer.deserialize).toHaveBeenCalledOnce()
   })
 
-  test("destroy session", async () => {
+  test("list and destroy sessions by owner", async () => {
     const store = new MemoryStore()
-    store.store.set("foo", JSON.stringify({ foo: "bar" }))
+    await store.set("foo", { cookie: {} as any, __owner: "alice" })
+    await store.set("bar", { cookie: {} as any, __owner: "alice" })
+    await store.set("baz", { cookie: {} as any, __owner: "bob" })
+    await store.set("bar", { cookie: {} as any, __owner: "bob" })
+    expect(await store.listByOwner("alice")).toEqual([["foo", { cookie: {}, __owner: "alice" }]])
+    expect((await store.listByOwner("bob")).map(([sid]) => sid)).toEqual(["baz", "bar"])
+    await expect(store.destroyByOwner("bob")).resolves.toBe(2)
+    expect([...store.store.keys()]).toEqual(["foo"])
     await store.destroy("foo")
-    expect(store.store.has("foo")).toBe(false)
+    expect(store.owners.size).toBe(0)
   })
 
-  test("touch session", async () => {
+  test("set session only if version matches", async () => {
     const store = new MemoryStore()
-    const _now = Date.now()
-    store.store.set(
-      "foo",
-      JSON.stringify({
-        foo: "bar",
-        cookie: { expires: new Date(_now - 1) } as any,
-      }),
-    )
-    await store.touch("foo", {
-      foo: "bar",
-      cookie: { expires: new Date(_now + 1) } as any,
-    })
-    expect(store.store.get("foo")).toEqual(
-      JSON.stringify({
-        foo: "bar",
-        cookie: { expires: new Date(_now + 1) } as any,
-      }),
-    )
+    await expect(store.setIfVersion("foo", { cookie: {} as any, __version: 1 }, 0)).resolves.toBe(true)
+    await expect(store.setIfVersion("foo", { cookie: {} as any, __version: 1 }, 0)).resolves.toBe(false)
+    await expect(store.setIfVersion("foo", { cookie: {} as any, __version: 2 }, 1)).resolves.toBe(true)
+    expect(await store.get("foo")).toEqual({ cookie: {}, __version: 2 })
   })
 })
@@ -0,0 +1,122 @@
+import { type IncomingMessage, type ServerResponse, createServer } from "node:http"
+import { describe, expect, test } from "vitest"
+
+import { makeFetch } from "./make-fetch"
+
+import CookieStore from "@/cookie-store"
+import MemoryStore from "@/memory-store"
+import session from "@/session"
+import { sign } from "@/signature"
+import type { Session } from "@/types"
+
+type Request = IncomingMessage & { session?: Session | undefined }
+
+function listen(handler: (req: Request, res: ServerResponse) => Promise<void>) {
+  const server = createServer((req, res) => {
+    handler(req, res).catch((err) => {
+      res.statusCode = 500
+      res.end(String(err))
+    })
+  })
+  return makeFetch(server.listen())
+}
+
+describe("session() with node:http", () => {
+  test("read the session cookie and set new session cookies", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: { httpOnly: true, path: "/", secure: false } })
+    const getSession = session({ store, cookie: { maxAge: 10 } })
+    const fetch = listen(async (req, res) => {
+      const sess = await getSession(req, res)
+      if (req.url === "/set") sess.foo = "baz"
+      await sess.commit()
+      res.end(sess.foo)
+    })
+
+    const res1 = await fetch("/", { headers: { cookie: "other=1; sid=foo" } })
+    await expect(res1.text()).resolves.toEqual("bar")
+    expect(res1.headers.getSetCookie()).toEqual([])
+
+    const res2 = await fetch("/set")
+    await expect(res2.text()).resolves.toEqual("baz")
+    const [setCookie] = res2.headers.getSetCookie()
+    expect(setCookie).toMatch(/^sid=[\w-]+; Path=\/; Expires=.+; HttpOnly$/)
+    const sid = setCookie.split(";")[0].slice("sid=".length)
+    expect(await store.get(sid)).toMatchObject({ foo: "baz" })
+  })
+
+  test("set cookies before headers are written explicitly", async () => {
+    const getSession = session()
+    const fetch = listen(async (req, res) => {
+      const sess = await getSession(req, res)
+      sess.foo = "bar"
+      await sess.commit()
+      res.writeHead(201, { "content-type": "text/plain" })
+      res.end()
+    })
+    const response = await fetch("/")
+    expect(response.status).toBe(201)
+    expect(response.headers.getSetCookie()).toHaveLength(1)
+  })
+
+  test("sign session cookies", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: { httpOnly: true, path: "/", secure: false } })
+    const getSession = session({ store, secret: "secret" })
+    const fetch = listen(async (req, res) => {
+      res.end((await getSession(req, res)).foo)
+    })
+    const res1 = await fetch("/", { headers: { cookie: `sid=${encodeURIComponent(sign("foo", "secret"))}` } })
+    await expect(res1.text()).resolves.toEqual("bar")
+    const res2 = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(res2.text()).resolves.toEqual("")
+  })
+
+  test("keep sessions in cookies using CookieStore", async () => {
+    const getSession = session({ store: new CookieStore({ keys: "secret" }) })
+    const fetch = listen(async (req, res) => {
+      const sess = await getSession(req, res)
+      sess.views = ((sess.views as number | undefined) ?? 0) + 1
+      await sess.commit()
+      res.end(String(sess.views))
+    })
+    const res1 = await fetch("/")
+    await expect(res1.text()).resolves.toEqual("1")
+    const cookie = res1.headers.getSetCookie()[0].split(";")[0]
+    const res2 = await fetch("/", { headers: { cookie } })
+    await expect(res2.text()).resolves.toEqual("2")
+  })
+
+  test("load sessions using connect-style middleware", async () => {
+    const getSession = session({ autoCommit: true })
+    const stack = [
+      getSession.middleware,
+      (req: Request, res: ServerResponse) => {
+        if (req.session == null) throw new Error("Session was not loaded")
+        req.session.views = ((req.session.views as number | undefined) ?? 0) + 1
+        res.end(String(req.session.views))
+      },
+    ]
+    const fetch = listen(
+      (req, res) =>
+        new Promise<void>((resolve, reject) => {
+          let index = 0
+          const next = (err?: unknown) => {
+            if (err != null) return reject(err)
+            try {
+              stack[index++](req, res, next)
+              if (index === stack.length) resolve()
+            } catch (err) {
+              reject(err)
+            }
+          }
+          next()
+        }),
+    )
+    const res1 = await fetch("/")
+    await expect(res1.text()).resolves.toEqual("1")
+    const cookie = res1.headers.getSetCookie()[0].split(";")[0]
+    const res2 = await fetch("/", { headers: { cookie } })
+    await expect(res2.text()).resolves.toEqual("2")
+  })
+})
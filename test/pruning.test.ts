@@ -0,0 +1,106 @@
+import { describe, expect, test, vi } from "vitest"
+
+import MemoryStore from "../src/memory-store"
+import { startPruning } from "../src/pruning"
+
+const cookie = { httpOnly: true, path: "/", secure: false }
+
+describe("startPruning", () => {
+  test("prune the store periodically and report the counts", async () => {
+    vi.useFakeTimers()
+    try {
+      const store = new MemoryStore({ sweepInterval: 0 })
+      await store.set("foo", { cookie: { ...cookie, maxAge: 30, expires: new Date(Date.now() + 30_000) } })
+      const onPrune = vi.fn()
+      const pruning = startPruning(store, { interval: 60, onPrune })
+      await vi.advanceTimersByTimeAsync(60_000)
+      expect(onPrune).toHaveBeenLastCalledWith(1)
+      expect(store.size).toBe(0)
+      await vi.advanceTimersByTimeAsync(60_000)
+      expect(onPrune).toHaveBeenLastCalledWith(0)
+      expect(onPrune).toHaveBeenCalledTimes(2)
+      await pruning.stop()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  test("not overlap runs, and wait for the current run when stopped", async () => {
+    vi.useFakeTimers()
+    try {
+      const store = new MemoryStore({ sweepInterval: 0 })
+      const finish = vi.fn<(count: number) => void>()
+      const prune = vi
+        .spyOn(store, "prune")
+        .mockReturnValue(new Promise((resolve) => finish.mockImplementation(resolve)))
+      const onPrune = vi.fn()
+      const pruning = startPruning(store, { interval: 1, onPrune })
+      await vi.advanceTimersByTimeAsync(3000)
+      expect(prune).toHaveBeenCalledOnce()
+
+      const stopped = vi.fn()
+      const stopping = pruning.stop().then(stopped)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(stopped).not.toHaveBeenCalled()
+      finish(2)
+      await stopping
+      expect(onPrune).toHaveBeenCalledWith(2)
+      await vi.advanceTimersByTimeAsync(3000)
+      expect(prune).toHaveBeenCalledOnce()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  test("report errors to onError", async () => {
+    vi.useFakeTimers()
+    try {
+      const store = new MemoryStore({ sweepInterval: 0 })
+      const error = new Error("disk full")
+      vi.spyOn(store, "prune").mockRejectedValue(error)
+      const onError = vi.fn()
+      const pruning = startPruning(store, { interval: 1, onError })
+      await vi.advanceTimersByTimeAsync(2000)
+      expect(onError).toHaveBeenCalledTimes(2)
+      expect(onError).toHaveBeenCalledWith(error)
+      await pruning.stop()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  test("report errors thrown by the callbacks as warnings", async () => {
+    vi.useFakeTimers()
+    const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => {})
+    try {
+      const store = new MemoryStore({ sweepInterval: 0 })
+      const error = new Error("logger closed")
+      const onPrune = vi.fn(() => {
+        throw new Error("metrics unavailable")
+      })
+      const onError = vi.fn(() => {
+        throw error
+      })
+      const pruning = startPruning(store, { interval: 1, onPrune, onError })
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(onError).toHaveBeenCalledWith(new Error("metrics unavailable"))
+      expect(emitWarning).toHaveBeenCalledWith(error)
+      await expect(pruning.stop()).resolves.toBeUndefined()
+    } finally {
+      emitWarning.mockRestore()
+      vi.useRealTimers()
+    }
+  })
+
+  test("reject stores which do not implement prune", () => {
+    const store = { get: async () => null, set: async () => {}, destroy: async () => {} }
+    expect(() => startPruning(store)).toThrow(TypeError)
+  })
+
+  test("reject intervals which are not positive numbers", () => {
+    const store = new MemoryStore({ sweepInterval: 0 })
+    for (const interval of [0, -1, Number.NaN, Number.POSITIVE_INFINITY]) {
+      expect(() => startPruning(store, { interval })).toThrow(TypeError)
+    }
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, test, vi } from "vitest"
+
+import { SessionStoreError } from "../src/errors"
+import MemoryStore from "../src/memory-store"
+import ResilientStore from "../src/resilient-store"
+import { testSessionStore } from "../src/testing"
+
+const cookie = { httpOnly: true, path: "/", secure: false }
+
+function failingStore(failures: number) {
+  const backend = new MemoryStore({ sweepInterval: 0 })
+  const get = vi.spyOn(backend, "get")
+  for (let index = 0; index < failures; index++) get.mockRejectedValueOnce(new Error("connection reset"))
+  return { backend, get }
+}
+
+describe("ResilientStore", () => {
+  testSessionStore({ describe, test, createStore: () => new ResilientStore(new MemoryStore({ sweepInterval: 0 })) })
+
+  test("retry failed operations", async () => {
+    const { backend, get } = failingStore(2)
+    const store = new ResilientStore(backend, { retryDelay: 1 })
+    await backend.set("foo", { foo: "bar", cookie })
+    expect(await store.get("foo")).toEqual({ foo: "bar", cookie })
+    expect(get).toHaveBeenCalledTimes(3)
+  })
+
+  test("reject with SessionStoreError once retries are exhausted", async () => {
+    const { backend, get } = failingStore(3)
+    const store = new ResilientStore(backend, { retries: 1, retryDelay: 1 })
+    const rejection = store.get("foo")
+    await expect(rejection).rejects.toThrow(SessionStoreError)
+    await expect(rejection).rejects.toMatchObject({ operation: "get", cause: new Error("connection reset") })
+    expect(get).toHaveBeenCalledTimes(2)
+  })
+
+  test("not retry errors which are not retryable", async () => {
+    const { backend, get } = failingStore(1)
+    const store = new ResilientStore(backend, { retryDelay: 1, isRetryable: () => false })
+    await expect(store.get("foo")).rejects.toThrow(SessionStoreError)
+    expect(get).toHaveBeenCalledOnce()
+  })
+
+  test("not retry setIfVersion", async () => {
+    const backend = new MemoryStore({ sweepInterval: 0 })
+    const setIfVersion = vi.spyOn(backend, "setIfVersion").mockRejectedValueOnce(new Error("connection reset"))
+    const store = new ResilientStore(backend, { retryDelay: 1 })
+    await expect(store.setIfVersion?.("foo", { cookie }, 0)).rejects.toThrow(SessionStoreError)
+    expect(setIfVersion).toHaveBeenCalledOnce()
+  })
+
+  test("time out operations which do not settle", async () => {
+    const backend = new MemoryStore({ sweepInterval: 0 })
+    vi.spyOn(backend, "get").mockReturnValue(new Promise(() => {}))
+    const store = new ResilientStore(backend, { timeout: 10, retries: 0 })
+    await expect(store.get("foo")).rejects.toThrow('Session store operation "get" failed: timed out after 10ms')
+  })
+
+  test("fail fast while the circuit is open, then close it once the store recovers", async () => {
+    const { backend, get } = failingStore(2)
+    const store = new ResilientStore(backend, { retries: 0, failureThreshold: 2, resetTimeout: 20 })
+    await expect(store.get("foo")).rejects.toThrow("connection reset")
+    await expect(store.get("foo")).rejects.toThrow("connection reset")
+    expect(store.isOpen).toBe(true)
+    await expect(store.get("foo")).rejects.toThrow("the circuit is open")
+    expect(get).toHaveBeenCalledTimes(2)
+
+    await new Promise((resolve) => setTimeout(resolve, 25))
+    expect(await store.get("foo")).toBeNull()
+    expect(store.isOpen).toBe(false)
+  })
+
+  test("expose the optional capabilities of the wrapped store", () => {
+    const store = new ResilientStore(new MemoryStore({ sweepInterval: 0 }))
+    expect(store.touch).toBeTypeOf("function")
+    expect(store.patch).toBeTypeOf("function")
+    expect(store.listByOwner).toBeTypeOf("function")
+    const bare = new ResilientStore({ get: async () => null, set: async () => {}, destroy: async () => {} })
+    expect(bare.touch).toBeUndefined()
+    expect(bare.setIfVersion).toBeUndefined()
+    expect(bare.patch).toBeUndefined()
+    expect(bare.listByOwner).toBeUndefined()
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "vitest"
+
+import { defaultSerializer } from "../src/serializer"
+
+describe("defaultSerializer", () => {
+  test("round-trip rich types", () => {
+    const sess = {
+      cookie: { httpOnly: true, path: "/", secure: false, maxAge: 10, expires: new Date(1000) },
+      date: new Date(2000),
+      invalidDate: new Date(Number.NaN),
+      map: new Map<unknown, unknown>([
+        ["foo", new Date(3000)],
+        [1, new Set([1n])],
+      ]),
+      set: new Set(["foo", "bar"]),
+      bigint: 12345678901234567890n,
+      nested: { list: [new Date(4000)] },
+    }
+    expect(defaultSerializer.deserialize(defaultSerializer.serialize(sess))).toEqual(sess)
+  })
+
+  test("not mangle data resembling tagged values or dates", () => {
+    const sess = {
+      cookie: { httpOnly: true, path: "/", secure: false },
+      expires: "2024-01-01T00:00:00.000Z",
+      tagged: { $t: "Date", v: "2024-01-01T00:00:00.000Z" },
+    }
+    expect(defaultSerializer.deserialize(defaultSerializer.serialize(sess))).toEqual(sess)
+  })
+
+  test("serialize cookie.expires as a plain date string", () => {
+    const expires = new Date(1000)
+    const serialized = defaultSerializer.serialize({
+      cookie: { httpOnly: true, path: "/", secure: false, maxAge: 10, expires },
+    })
+    expect(JSON.parse(serialized).cookie.expires).toEqual(expires.toISOString())
+    expect(defaultSerializer.deserialize(serialized).cookie.expires).toEqual(expires)
+  })
+})
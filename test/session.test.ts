@@ -4,10 +4,13 @@ import { describe, expect, test, vi } from "vitest"
 
 import { makeFetch } from "./make-fetch"
 
+import CookieStore from "@/cookie-store"
+import { SessionConflictError, SessionStoreError } from "@/errors"
 import MemoryStore from "@/memory-store"
 import session from "@/session"
+import { sign } from "@/signature"
 import { isNew, isTouched } from "@/symbol"
-import type { Session, SessionData } from "@/types"
+import type { Session, SessionData, StandardSchema } from "@/types"
 
 type Request = OtterRequest & { session?: Session<Record<string, unknown>> | undefined }
 type Response<Req extends Request = Request> = OtterResponse<Req>
@@ -217,6 +220,7 @@ describe("session()", () => {
     expect(response.headers.getSetCookie()).toContain(`sid=foo; Path=/; Expires=${newExpires?.toUTCString()}; HttpOnly`)
     expect(store.touch).toHaveBeenCalledWith("foo", {
       cookie: { ...defaultCookie, expires: newExpires, maxAge: 5 },
+      __touchedAt: expect.any(Number),
       [isTouched]: true,
     })
   })
@@ -244,6 +248,399 @@ describe("session()", () => {
     expect(response.headers.getSetCookie()).toEqual([])
     expect(store.touch).not.toHaveBeenCalled()
   })
+  test("start a new session if absoluteTimeout is exceeded", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie, __createdAt: Date.now() - 11000 })
+    await store.set("bar", { foo: "bar", cookie: defaultCookie, __createdAt: Date.now() - 9000 })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      await session({ store, absoluteTimeout: 10 })(req, res)
+      res.end(req.session?.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(response.text()).resolves.toEqual("")
+    expect(store.store.has("foo")).toBe(false)
+    const response2 = await fetch("/", { headers: { cookie: "sid=bar" } })
+    await expect(response2.text()).resolves.toEqual("bar")
+  })
+  test("start a new session if idleTimeout is exceeded", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie, __lastActiveAt: Date.now() - 11000 })
+    await store.set("bar", { foo: "bar", cookie: defaultCookie, __lastActiveAt: Date.now() - 9000 })
+    let lastActiveAt: number | undefined
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      await session({ store, idleTimeout: 10 })(req, res)
+      lastActiveAt = req.session?.__lastActiveAt
+      res.end(req.session?.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(response.text()).resolves.toEqual("")
+    expect(store.store.has("foo")).toBe(false)
+    const response2 = await fetch("/", { headers: { cookie: "sid=bar" } })
+    await expect(response2.text()).resolves.toEqual("bar")
+    expect(lastActiveAt).toBeGreaterThan(Date.now() - 1000)
+  })
+  test("reject with SessionStoreError if the session record cannot be read", async () => {
+    const store = new MemoryStore()
+    vi.spyOn(store, "get").mockRejectedValue(new Error("connection reset"))
+    let error: unknown
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      error = await session({ store })(req, res).catch((err) => err)
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(error).toBeInstanceOf(SessionStoreError)
+    expect(error).toMatchObject({ operation: "get", cause: new Error("connection reset") })
+  })
+  test("continue with an unsaved degraded session if readFailure is degrade", async () => {
+    const store = new MemoryStore()
+    vi.spyOn(store, "get").mockRejectedValue(new Error("connection reset"))
+    const set = vi.spyOn(store, "set")
+    const destroy = vi.spyOn(store, "destroy")
+    const onCreate = vi.fn()
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, readFailure: "degrade", autoCommit: true, onCreate })(req, res)
+      sess.views = 1
+      await expect(sess.commit()).rejects.toThrow(SessionStoreError)
+      await expect(sess.touch()).rejects.toThrow(SessionStoreError)
+      await expect(sess.regenerate()).rejects.toThrow(SessionStoreError)
+      await expect(sess.destroy()).rejects.toMatchObject({ operation: "destroy" })
+      res.end(String(sess.degraded))
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(response.text()).resolves.toEqual("true")
+    expect(response.headers.get("set-cookie")).toBeNull()
+    expect(set).not.toHaveBeenCalled()
+    expect(destroy).not.toHaveBeenCalled()
+    expect(onCreate).toHaveBeenCalledWith(expect.anything(), expect.anything(), "degraded")
+  })
+  test("migrate and validate loaded session data", async () => {
+    const store = new MemoryStore()
+    await store.set("v0", { name: "Alice Smith", cookie: defaultCookie })
+    await store.set("v1", { firstName: "Bob", cookie: defaultCookie, __schema: 1 })
+    await store.set("invalid", { firstName: 42, cookie: defaultCookie, __schema: 1 })
+    await store.set("future", { firstName: "Carol", cookie: defaultCookie, __schema: 2 })
+    const schema: StandardSchema<{ firstName?: string }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => {
+          const { firstName } = value as { firstName?: unknown }
+          if (firstName != null && typeof firstName !== "string") return { issues: [{ message: "Invalid name" }] }
+          return { value: value as { firstName?: string } }
+        },
+      },
+    }
+    const sessionFn = session({
+      store,
+      schema,
+      migrations: [({ name, ...data }) => ({ ...data, firstName: (name as string).split(" ")[0] })],
+      autoCommit: true,
+    })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await sessionFn(req, res)
+      const firstName: string | undefined = sess.firstName
+      res.end(firstName ?? "")
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    await expect((await fetch("/", { headers: { cookie: "sid=v0" } })).text()).resolves.toEqual("Alice")
+    expect(await store.get("v0")).toEqual({ firstName: "Alice", cookie: defaultCookie, __schema: 1 })
+    await expect((await fetch("/", { headers: { cookie: "sid=v1" } })).text()).resolves.toEqual("Bob")
+    await expect((await fetch("/", { headers: { cookie: "sid=invalid" } })).text()).resolves.toEqual("")
+    expect(store.store.has("invalid")).toBe(false)
+    await expect((await fetch("/", { headers: { cookie: "sid=future" } })).text()).resolves.toEqual("")
+    expect(store.store.has("future")).toBe(false)
+  })
+  test("discard session data which a migration cannot handle", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { fullName: "Alice Smith", cookie: defaultCookie })
+    const onCreate = vi.fn()
+    const sessionFn = session({
+      store,
+      migrations: [({ name, ...data }) => ({ ...data, firstName: (name as string).split(" ")[0] })],
+      onCreate,
+    })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await sessionFn(req, res)
+      res.end(String(sess.fullName))
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(response.text()).resolves.toEqual("undefined")
+    expect(store.store.has("foo")).toBe(false)
+    expect(onCreate).toHaveBeenCalledWith(expect.anything(), expect.anything(), "invalid")
+  })
+  test("bind sessions to client attributes", async () => {
+    const store = new MemoryStore()
+    const mismatches: string[][] = []
+    const reactions = {
+      destroy: session({ store, binding: { userAgent: true } }),
+      flag: session({ store, binding: { userAgent: true, onMismatch: "flag" } }),
+      hook: session({
+        store,
+        binding: { userAgent: true, onMismatch: (_req, _sess, attributes) => void mismatches.push(attributes) },
+      }),
+    }
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const reaction = req.url?.slice(1) as keyof typeof reactions
+      const sess = await reactions[reaction](req, res)
+      if (sess[isNew]) {
+        sess.foo = "bar"
+        await sess.commit()
+      }
+      res.end(JSON.stringify({ id: sess.id, suspicious: sess.suspicious }))
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    type Body = { id: string; suspicious: boolean }
+    const created = (await (await fetch("/destroy", { headers: { "user-agent": "foo" } })).json()) as Body
+    expect(store.store.get(created.id)).toContain("__binding")
+    const headers = (userAgent: string) => ({ cookie: `sid=${created.id}`, "user-agent": userAgent })
+
+    await expect((await fetch("/destroy", { headers: headers("foo") })).json()).resolves.toEqual({
+      id: created.id,
+      suspicious: false,
+    })
+    await expect((await fetch("/flag", { headers: headers("bar") })).json()).resolves.toEqual({
+      id: created.id,
+      suspicious: true,
+    })
+    await expect((await fetch("/hook", { headers: headers("bar") })).json()).resolves.toEqual({
+      id: created.id,
+      suspicious: true,
+    })
+    expect(mismatches).toEqual([["userAgent"]])
+    const replaced = (await (await fetch("/destroy", { headers: headers("bar") })).json()) as Body
+    expect(replaced.id).not.toEqual(created.id)
+    expect(store.store.has(created.id)).toBe(false)
+  })
+  test("defer loading lazy sessions until first use", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie })
+    const get = vi.spyOn(store, "get")
+    const sessionFn = session({ store })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const handle = sessionFn.lazy(req, res)
+      expect(await Promise.resolve(handle)).toBe(handle)
+      if (req.url === "/unused") return res.end()
+      if (req.url === "/set") {
+        const sess = await handle.load()
+        sess.foo = "baz"
+        await handle.commit()
+      }
+      expect(await handle.load()).toBe(await handle.load())
+      res.end(await handle.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const res1 = await fetch("/unused", { headers: { cookie: "sid=foo" } })
+    expect(res1.status).toBe(200)
+    expect(get).not.toHaveBeenCalled()
+
+    const res2 = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(res2.text()).resolves.toEqual("bar")
+    expect(get).toHaveBeenCalledOnce()
+
+    const res3 = await fetch("/set")
+    await expect(res3.text()).resolves.toEqual("baz")
+    expect(res3.headers.getSetCookie()).toHaveLength(1)
+  })
+  test("retry loading lazy sessions after a failed load", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie })
+    const get = vi.spyOn(store, "get").mockRejectedValueOnce(new Error("unavailable"))
+    const sessionFn = session({ store })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const handle = sessionFn.lazy(req, res)
+      expect(JSON.stringify(handle)).toEqual("{}")
+      expect(get).not.toHaveBeenCalled()
+      // Neither the unawaited property read nor the shared load may cause an unhandled rejection
+      void handle.foo
+      await expect(handle.load()).rejects.toThrow(SessionStoreError)
+      res.end(await handle.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(response.text()).resolves.toEqual("bar")
+    expect(get).toHaveBeenCalledTimes(2)
+  })
+  test("call lifecycle hooks in order", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", {
+      foo: "bar",
+      cookie: { ...defaultCookie, expires: new Date(Date.now() + 5000), maxAge: 10 },
+    })
+    await store.set("old", { cookie: defaultCookie, __lastActiveAt: Date.now() - 11000 })
+    const events: string[] = []
+    const record = (hook: string) => (_req: Request, _sess: unknown, reason: string) => {
+      events.push(`${hook}:${reason}`)
+    }
+    const sessionFn = session({
+      store,
+      touchAfter: 0,
+      idleTimeout: 10,
+      onCreate: record("create"),
+      onLoad: [record("load"), async () => void events.push("load:second")],
+      onCommit: record("commit"),
+      onTouch: record("touch"),
+      onDestroy: record("destroy"),
+      onExpired: record("expired"),
+    })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await sessionFn(req, res)
+      if (req.url === "/commit") await sess.commit()
+      if (req.url === "/regenerate") await sess.regenerate()
+      if (req.url === "/destroy") await sess.destroy()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    await fetch("/commit", { headers: { cookie: "sid=foo" } })
+    expect(events).toEqual(["load:load", "load:second", "touch:touchAfter", "commit:commit"])
+    events.length = 0
+    await fetch("/regenerate", { headers: { cookie: "sid=foo" } })
+    expect(events).toEqual(["load:load", "load:second", "touch:touchAfter", "commit:regenerate"])
+    events.length = 0
+    await fetch("/destroy")
+    await fetch("/", { headers: { cookie: "sid=missing" } })
+    await fetch("/", { headers: { cookie: "sid=old" } })
+    expect(events).toEqual(["create:new", "destroy:destroy", "create:unknown", "expired:idleTimeout", "create:expired"])
+  })
+  test("persist activity of sessions which are only read if idleTimeout is set", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie, __lastActiveAt: Date.now() - 6000 })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, idleTimeout: 10, touchAfter: 5 })(req, res)
+      res.end(sess.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(response.text()).resolves.toEqual("bar")
+    const stored = await store.get("foo")
+    expect(stored?.__lastActiveAt).toBeGreaterThan(Date.now() - 1000)
+
+    // Activity is persisted at most once per touchAfter
+    const touch = vi.spyOn(store, "touch")
+    await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(touch).not.toHaveBeenCalled()
+  })
+  test("not touch on every request once absoluteTimeout caps the expiry", async () => {
+    const store = new MemoryStore()
+    const createdAt = Date.now() - 9000
+    const getSession = session({ store, touchAfter: 5, absoluteTimeout: 10, cookie: { maxAge: 60 } })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await getSession(req, res)
+      if (req.url === "/create") {
+        sess.__createdAt = createdAt
+        sess.foo = "bar"
+        await sess.commit()
+      }
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/create")
+    const cookie = response.headers.getSetCookie()[0].split(";")[0]
+    const touch = vi.spyOn(store, "touch")
+    await fetch("/", { headers: { cookie } })
+    await fetch("/", { headers: { cookie } })
+    expect(touch).not.toHaveBeenCalled()
+  })
+  test("not touch session beyond absoluteTimeout", async () => {
+    const store = new MemoryStore()
+    const createdAt = Date.now() - 5000
+    await store.set("foo", {
+      cookie: { ...defaultCookie, expires: new Date(createdAt + 10000), maxAge: 10 },
+      __createdAt: createdAt,
+    })
+    let newExpires: Date | null | undefined
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      await session({ store, touchAfter: 0, absoluteTimeout: 8 })(req, res)
+      newExpires = req.session?.cookie.expires
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(newExpires?.getTime()).toEqual(createdAt + 8000)
+  })
+  test("show flash messages once", async () => {
+    type Data = { __flash?: { info?: string[]; error?: string[] } }
+    const store = new MemoryStore()
+    const sessionFn = session<Data>({ store, autoCommit: true })
+    const app = new App<Request, Response>()
+    app.get("/first", async (req, res) => {
+      const sess = await sessionFn(req, res)
+      sess.flash("info", "Signed in")
+      sess.flash("info", "Welcome back")
+      sess.flash("error", "Password expires soon")
+      // @ts-expect-error flash message types must be declared
+      sess.flash("warning", "Unknown type")
+      res.end()
+    })
+    app.get("/second", async (req, res) => {
+      const sess = await sessionFn(req, res)
+      res.end(JSON.stringify([sess.consumeFlash("info"), sess.consumeFlash()]))
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const res1 = await fetch("/first")
+    const cookie = res1.headers.getSetCookie()[0].split(";")[0]
+    const res2 = await fetch("/second", { headers: { cookie } })
+    await expect(res2.json()).resolves.toEqual([
+      ["Signed in", "Welcome back"],
+      { error: ["Password expires soon"], warning: ["Unknown type"] },
+    ])
+    const res3 = await fetch("/second", { headers: { cookie } })
+    await expect(res3.json()).resolves.toEqual([[], {}])
+  })
+  test("show flash messages once without autoCommit", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { cookie: defaultCookie, __flash: { info: ["Signed in"] } })
+    const sessionFn = session<{ __flash?: { info?: string[] } }>({ store })
+    const app = new App<Request, Response>()
+    app.get("/", async (req, res) => {
+      const sess = await sessionFn(req, res)
+      res.end(JSON.stringify(sess.consumeFlash("info")))
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const res1 = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(res1.json()).resolves.toEqual(["Signed in"])
+    const res2 = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(res2.json()).resolves.toEqual([])
+    await expect(store.get("foo")).resolves.toEqual({ cookie: defaultCookie })
+  })
   test("support calling res.end() multiple times", async () => {
     // This must be tested with a real server to verify headers sent error
     // https://github.com/hoangvvo/next-session/pull/31
@@ -329,6 +726,319 @@ describe("session()", () => {
     const res3 = await fetch("/second", { headers: { cookie: `sid=${sid}` } })
     await expect(res3.text()).resolves.toEqual("")
   })
+  test("sign and verify sid using secret", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      await session({ store, secret: ["new secret", "old secret"] })(req, res)
+      res.end(req.session?.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const res1 = await fetch("/", { headers: { cookie: `sid=${sign("foo", "new secret")}` } })
+    await expect(res1.text()).resolves.toEqual("bar")
+    expect(res1.headers.getSetCookie()).toEqual([])
+
+    const res2 = await fetch("/", { headers: { cookie: `sid=${sign("foo", "old secret")}` } })
+    await expect(res2.text()).resolves.toEqual("bar")
+    expect(res2.headers.getSetCookie()).toEqual([`sid=${sign("foo", "new secret")}; Path=/; HttpOnly`])
+
+    const res3 = await fetch("/", { headers: { cookie: `sid=${sign("foo", "other secret")}` } })
+    await expect(res3.text()).resolves.toEqual("")
+    const res4 = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(res4.text()).resolves.toEqual("")
+  })
+  test("exchange session ids through header transports", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie })
+    const sessionFn = session({ store, transport: [{ header: "X-Session-Id" }, "bearer", "cookie"] })
+    const app = new App<Request, Response>()
+    app.get("/", async (req: Request, res: Response) => {
+      const sess = await sessionFn(req, res)
+      res.end(sess.foo)
+    })
+    app.get("/login", async (req: Request, res: Response) => {
+      const sess = await sessionFn(req, res)
+      sess.foo = "baz"
+      await sess.commit()
+      res.end()
+    })
+    app.get("/logout", async (req: Request, res: Response) => {
+      await (await sessionFn(req, res)).destroy()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const res1 = await fetch("/", { headers: { "x-session-id": "foo" } })
+    await expect(res1.text()).resolves.toEqual("bar")
+    expect(res1.headers.get("x-session-id")).toEqual(null)
+    const res2 = await fetch("/", { headers: { authorization: "Bearer foo" } })
+    await expect(res2.text()).resolves.toEqual("bar")
+    const res3 = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(res3.text()).resolves.toEqual("bar")
+
+    const res4 = await fetch("/login")
+    const sid = res4.headers.get("x-session-id")
+    expect(store.store.has(sid as string)).toBe(true)
+    expect(res4.headers.getSetCookie()).toEqual([])
+
+    const res5 = await fetch("/logout", { headers: { authorization: `Bearer ${sid}` } })
+    expect(res5.headers.get("session-token")).toEqual("")
+    expect(res5.headers.get("authorization")).toEqual(null)
+    expect(store.store.has(sid as string)).toBe(false)
+  })
+  test("sign session ids sent through header transports", async () => {
+    const store = new MemoryStore()
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, secret: "secret", transport: "bearer" })(req, res)
+      sess.foo = "bar"
+      await sess.commit()
+      res.end(sess.id)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const res1 = await fetch("/")
+    const sid = await res1.text()
+    expect(res1.headers.get("session-token")).toEqual(sign(sid, "secret"))
+
+    const res2 = await fetch("/", { headers: { authorization: `Bearer ${sign(sid, "secret")}` } })
+    await expect(res2.text()).resolves.toEqual(sid)
+    const res3 = await fetch("/", { headers: { authorization: `Bearer ${sid}` } })
+    await expect(res3.text()).resolves.not.toEqual(sid)
+  })
+  test("set Partitioned and Priority cookie attributes", async () => {
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ cookie: { secure: true, partitioned: true, priority: "high" } })(req, res)
+      sess.foo = "bar"
+      await sess.commit()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/")
+    const [cookie] = response.headers.getSetCookie()
+    expect(cookie).toMatch(/^sid=[^;]+; Path=\/; HttpOnly; Secure; Partitioned; Priority=High$/)
+  })
+  test("validate the constraints of __Secure- and __Host- cookie name prefixes", () => {
+    expect(() => session({ cookie: { name: "__Secure-sid" } })).toThrow(
+      'Session cookie "__Secure-sid" requires the secure cookie option',
+    )
+    expect(() => session({ cookie: { name: "__Secure-sid", secure: true, domain: "example.com" } })).not.toThrow()
+    expect(() => session({ cookie: { name: "__Host-sid", secure: true, path: "/app" } })).toThrow(
+      'Session cookie "__Host-sid" requires the path "/" and no domain',
+    )
+    expect(() => session({ cookie: { name: "__Host-sid", secure: true, domain: "example.com" } })).toThrow(TypeError)
+    expect(() => session({ cookie: { name: "__Host-sid", secure: true } })).not.toThrow()
+    expect(() => session({ cookie: { partitioned: true } })).toThrow(TypeError)
+    expect(() => session({ cookie: { name: "__Host-sid" }, transport: "bearer" })).not.toThrow()
+    expect(() => session({ cookie: { name: "__Host-sid" }, transport: ["bearer", "cookie"] })).toThrow(TypeError)
+  })
+  test("require a store which implements touch if idleTimeout is set", () => {
+    const store = { get: async () => null, set: async () => {}, destroy: async () => {} }
+    expect(() => session({ store, idleTimeout: 60 })).toThrow(TypeError)
+    expect(() => session({ store: { ...store, touch: async () => {} }, idleTimeout: 60 })).not.toThrow()
+    expect(() => session({ store: new CookieStore({ keys: "secret" }), idleTimeout: 60 })).not.toThrow()
+  })
+  test("reject non-cookie transports with CookieStore", () => {
+    expect(() => session({ store: new CookieStore({ keys: "secret" }), transport: "bearer" })).toThrow(TypeError)
+  })
+  test("list and destroy sessions by owner", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { userId: "alice", cookie: defaultCookie, __owner: "alice" })
+    await store.set("bar", { userId: "alice", cookie: defaultCookie, __owner: "alice" })
+    const sessionFn = session({ store, owner: (sess) => sess.userId as string | undefined })
+    const app = new App<Request, Response>()
+    app.get("/login", async (req, res) => {
+      const sess = await sessionFn(req, res)
+      sess.userId = "alice"
+      await sess.commit()
+      res.end(sess.id)
+    })
+    app.get("/sessions", async (req, res) => {
+      const sess = await sessionFn(req, res)
+      res.end(JSON.stringify((await sessionFn.listSessions(sess.userId as string)).map(([sid]) => sid)))
+    })
+    app.get("/logout-everywhere", async (req, res) => {
+      const sess = await sessionFn(req, res)
+      res.end(String(await sessionFn.destroySessions(sess.userId as string, { except: sess.id })))
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const res1 = await fetch("/login")
+    const sid = await res1.text()
+    expect((await store.get(sid))?.__owner).toEqual("alice")
+    const res2 = await fetch("/sessions", { headers: { cookie: `sid=${sid}` } })
+    await expect(res2.json()).resolves.toEqual(["foo", "bar", sid])
+    const res3 = await fetch("/logout-everywhere", { headers: { cookie: `sid=${sid}` } })
+    await expect(res3.text()).resolves.toEqual("2")
+    expect([...store.store.keys()]).toEqual([sid])
+  })
+  test("throw on conflicting commit if conflict is throw", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { views: 1, cookie: defaultCookie, __version: 1 })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, conflict: "throw" })(req, res)
+      await store.set("foo", { views: 2, cookie: defaultCookie, __version: 2 })
+      sess.views = 2
+      await expect(sess.commit()).rejects.toThrow(SessionConflictError)
+      await store.set("foo", { views: 1, cookie: defaultCookie, __version: 1 })
+      await sess.commit()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(response.status).toBe(200)
+    await expect(store.get("foo")).resolves.toEqual({ views: 2, cookie: defaultCookie, __version: 2 })
+  })
+  test("not undo a concurrent commit when touched if conflict is set", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { views: 1, cookie: defaultCookie, __version: 1 })
+    const commit = vi.fn()
+    const committed = new Promise((resolve) => commit.mockImplementation(resolve))
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, conflict: "throw" })(req, res)
+      if (req.url === "/touch") {
+        await committed
+        await sess.touch()
+      } else {
+        sess.views = 2
+        await sess.commit()
+        commit()
+      }
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const responses = await Promise.all([
+      fetch("/touch", { headers: { cookie: "sid=foo" } }),
+      fetch("/commit", { headers: { cookie: "sid=foo" } }),
+    ])
+    expect(responses.map((response) => response.status)).toEqual([200, 200])
+    await expect(store.get("foo")).resolves.toEqual({ views: 2, cookie: defaultCookie, __version: 2 })
+  })
+  test("not conflict on requests which only read the session if autoCommit is set", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { views: 1, cookie: defaultCookie, __version: 1 })
+    const commit = vi.fn()
+    const committed = new Promise((resolve) => commit.mockImplementation(resolve))
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, autoCommit: true, touchAfter: 0, conflict: "throw" })(req, res)
+      if (req.url === "/read") {
+        await committed
+        return res.end(String(sess.views))
+      }
+      sess.views = 2
+      await sess.commit()
+      commit()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const [read, write] = await Promise.all([
+      fetch("/read", { headers: { cookie: "sid=foo" } }),
+      fetch("/write", { headers: { cookie: "sid=foo" } }),
+    ])
+    await expect(read.text()).resolves.toEqual("1")
+    expect(write.status).toBe(200)
+    await expect(store.get("foo")).resolves.toMatchObject({ views: 2, __version: 2 })
+  })
+  test("throw on conflicting regenerate if conflict is throw", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { views: 1, cookie: defaultCookie, __version: 1 })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, conflict: "throw" })(req, res)
+      await store.set("foo", { views: 2, cookie: defaultCookie, __version: 2 })
+      await expect(sess.regenerate()).rejects.toThrow(SessionConflictError)
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(response.status).toBe(200)
+    expect([...store.store.keys()]).toEqual(["foo"])
+    await expect(store.get("foo")).resolves.toEqual({ views: 2, cookie: defaultCookie, __version: 2 })
+  })
+  test("merge conflicting commit if conflict has merge", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { cart: ["apple"], cookie: defaultCookie, __version: 1 })
+    const merge = vi.fn((stored: SessionData, local: SessionData) => ({
+      ...local,
+      cart: [...new Set([...(stored.cart as string[]), ...(local.cart as string[])])],
+    }))
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, conflict: { merge } })(req, res)
+      await store.set("foo", { cart: ["apple", "pear"], cookie: defaultCookie, __version: 2 })
+      sess.cart = ["apple", "banana"]
+      await sess.commit()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(response.status).toBe(200)
+    expect(merge).toHaveBeenCalledOnce()
+    await expect(store.get("foo")).resolves.toEqual({
+      cart: ["apple", "pear", "banana"],
+      cookie: defaultCookie,
+      __version: 3,
+    })
+  })
+  test("commit only changed keys if store implements patch", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { views: 1, name: "otter", stale: true, cookie: defaultCookie })
+    const patch = vi.spyOn(store, "patch")
+    const set = vi.spyOn(store, "set")
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store })(req, res)
+      sess.views = 2
+      Reflect.deleteProperty(sess, "stale")
+      await sess.commit()
+      sess.views = 3
+      await sess.commit()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(response.status).toBe(200)
+    expect(patch.mock.calls).toEqual([
+      ["foo", { set: { views: 2 }, delete: ["stale"] }],
+      ["foo", { set: { views: 3 }, delete: [] }],
+    ])
+    expect(set).not.toHaveBeenCalled()
+    await expect(store.get("foo")).resolves.toEqual({ views: 3, name: "otter", cookie: defaultCookie })
+  })
+  test("fall back to set if the patched record no longer exists", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { views: 1, cookie: defaultCookie })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store })(req, res)
+      await store.destroy("foo")
+      sess.views = 2
+      await sess.commit()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(response.status).toBe(200)
+    await expect(store.get("foo")).resolves.toEqual({ views: 2, cookie: defaultCookie })
+  })
   test("set cookie correctly after res.writeHead", async () => {
     const app = new App<Request, Response>()
     app.use(async (req: Request, res: Response) => {
@@ -344,6 +1054,252 @@ describe("session()", () => {
     expect(response.status).toBe(200)
     expect(response.headers.getSetCookie()).toMatchObject([expect.any(String)])
   })
+  test("regenerate session id and keep session data", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie })
+    let newId: string | undefined
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      await session({ store, genid: () => "baz" })(req, res)
+      if (req.session == null) return res.end()
+      await req.session.regenerate()
+      newId = req.session.id
+      res.end(req.session.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(newId).toEqual("baz")
+    await expect(response.text()).resolves.toEqual("bar")
+    expect(response.headers.getSetCookie()).toContain("sid=baz; Path=/; HttpOnly")
+    expect(store.store.has("foo")).toBe(false)
+    await expect(store.get("baz")).resolves.toEqual({ foo: "bar", cookie: defaultCookie })
+  })
+  test("regenerate session id on commit when a privileged key changes", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { cookie: defaultCookie })
+    const sessionFn = session({ store, genid: () => "baz", regenerateOnChange: ["userId"] })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      await sessionFn(req, res)
+      if (req.session == null) return res.end()
+      req.session.views = 1
+      await req.session.commit()
+      expect(req.session.id).toEqual("foo")
+      req.session.userId = "alice"
+      await req.session.commit()
+      res.end(req.session.id)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(response.text()).resolves.toEqual("baz")
+    expect(response.headers.getSetCookie()).toContain("sid=baz; Path=/; HttpOnly")
+    expect(store.store.has("foo")).toBe(false)
+    await expect(store.get("baz")).resolves.toEqual({ views: 1, userId: "alice", cookie: defaultCookie })
+  })
+  test("commit modified session automatically if autoCommit is set", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { user: { name: "alice", roles: [] }, cookie: defaultCookie })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      await session({ store, autoCommit: true })(req, res)
+      if (req.session == null) return res.end()
+      const user = req.session.user as { roles: string[] }
+      user.roles.push("admin")
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(response.status).toBe(200)
+    await expect(store.get("foo")).resolves.toEqual({
+      user: { name: "alice", roles: ["admin"] },
+      cookie: defaultCookie,
+    })
+  })
+  test("save automatically committed sessions before the response ends", async () => {
+    const store = new MemoryStore()
+    const set = store.set.bind(store)
+    store.set = vi.fn(async (sid: string, sess: SessionData) => {
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      await set(sid, sess)
+    })
+    const onCommit = vi.fn()
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, autoCommit: true, onCommit })(req, res)
+      sess.foo = "bar"
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/")
+    const sid = response.headers.getSetCookie()[0].split(";")[0].slice("sid=".length)
+    await expect(store.get(sid)).resolves.toEqual({ foo: "bar", cookie: defaultCookie })
+    expect(onCommit).toHaveBeenCalledOnce()
+  })
+  test("fail the response if an automatic commit fails", async () => {
+    const store = new MemoryStore()
+    store.set = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      throw new Error("connection reset")
+    })
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, autoCommit: true })(req, res)
+      sess.foo = "bar"
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    await expect(fetch("/")).rejects.toThrow()
+  })
+  test("not commit unmodified session if autoCommit is set", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { foo: "bar", cookie: defaultCookie })
+    store.set = vi.fn()
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      await session({ store, autoCommit: true })(req, res)
+      res.end(req.session?.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    await expect(response.text()).resolves.toEqual("bar")
+    const emptyResponse = await fetch("/")
+    expect(emptyResponse.headers.getSetCookie()).toEqual([])
+    expect(store.set).not.toHaveBeenCalled()
+  })
+  test("not commit sessions touched because of touchAfter if autoCommit is set", async () => {
+    const store = new MemoryStore()
+    const cookie = { ...defaultCookie, maxAge: 60, expires: new Date(Date.now() + 60_000) }
+    await store.set("foo", { foo: "old", cookie })
+    const set = vi.spyOn(store, "set")
+    const patch = vi.spyOn(store, "patch")
+    const commit = vi.fn()
+    const committed = new Promise((resolve) => commit.mockImplementation(resolve))
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, autoCommit: true, touchAfter: 0 })(req, res)
+      if (req.url === "/read") {
+        await committed
+        return res.end(sess.foo)
+      }
+      sess.foo = "new"
+      await sess.commit()
+      commit()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const [read] = await Promise.all([
+      fetch("/read", { headers: { cookie: "sid=foo" } }),
+      fetch("/write", { headers: { cookie: "sid=foo" } }),
+    ])
+    await expect(read.text()).resolves.toEqual("old")
+    expect(set).not.toHaveBeenCalled()
+    expect(patch).toHaveBeenCalledOnce()
+    await expect(store.get("foo")).resolves.toMatchObject({ foo: "new" })
+  })
+  test("not commit again after an explicit commit if autoCommit is set", async () => {
+    const store = new MemoryStore()
+    await store.set("foo", { views: 1, cookie: defaultCookie, __version: 1 })
+    const setIfVersion = vi.spyOn(store, "setIfVersion")
+    const app = new App<Request, Response>()
+    app.use(async (req: Request, res: Response) => {
+      const sess = await session({ store, autoCommit: true, owner: () => "alice", conflict: "throw" })(req, res)
+      sess.views = 2
+      await sess.commit()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+    const response = await fetch("/", { headers: { cookie: "sid=foo" } })
+    expect(response.status).toBe(200)
+    expect(setIfVersion).toHaveBeenCalledOnce()
+    await expect(store.get("foo")).resolves.toEqual({
+      views: 2,
+      cookie: defaultCookie,
+      __owner: "alice",
+      __version: 2,
+    })
+  })
+  test("keep session data in the session cookie if store is a CookieStore", async () => {
+    const store = new CookieStore({ keys: "keyboard cat" })
+    const sessionFn = session({ store })
+    const app = new App<Request, Response>()
+    app.use("/", async (req: Request, res: Response, next) => {
+      await sessionFn(req, res)
+      next()
+    })
+    app.get("/first", async (req, res) => {
+      if (req.session == null) return res.end()
+      req.session.foo = "bar"
+      await req.session.commit()
+      res.end()
+    })
+    app.get("/second", async (req, res) => {
+      if (req.session == null) return res.end()
+      res.end(req.session.foo)
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const res1 = await fetch("/first")
+    const [setCookie] = res1.headers.getSetCookie()
+    expect(setCookie).toMatch(/^sid=[\w-]+; Path=\/; HttpOnly$/)
+    const cookie = setCookie.split(";")[0]
+
+    const res2 = await fetch("/second", { headers: { cookie } })
+    await expect(res2.text()).resolves.toEqual("bar")
+
+    const res3 = await fetch("/second", { headers: { cookie: `${cookie.slice(0, -2)}AA` } })
+    await expect(res3.text()).resolves.toEqual("")
+  })
+  test("split large sessions into chunked cookies if store is a CookieStore", async () => {
+    const store = new CookieStore({ keys: "keyboard cat", maxCookieSize: 200 })
+    const sessionFn = session({ store })
+    const app = new App<Request, Response>()
+    app.use("/", async (req: Request, res: Response, next) => {
+      await sessionFn(req, res)
+      next()
+    })
+    app.get("/first", async (req, res) => {
+      if (req.session == null) return res.end()
+      req.session.foo = "bar".repeat(50)
+      await req.session.commit()
+      res.end()
+    })
+    app.get("/second", async (req, res) => {
+      if (req.session == null) return res.end()
+      res.end(req.session.foo)
+    })
+    app.get("/third", async (req, res) => {
+      if (req.session == null) return res.end()
+      await req.session.destroy()
+      res.end()
+    })
+    const server = app.listen()
+    const fetch = makeFetch(server)
+
+    const res1 = await fetch("/first")
+    const setCookies = res1.headers.getSetCookie()
+    expect(setCookies.length).toBeGreaterThan(1)
+    expect(setCookies[1]).toMatch(/^sid\.1=/)
+    const cookie = setCookies.map((setCookie) => setCookie.split(";")[0]).join("; ")
+
+    const res2 = await fetch("/second", { headers: { cookie } })
+    await expect(res2.text()).resolves.toEqual("bar".repeat(50))
+
+    const res3 = await fetch("/third", { headers: { cookie } })
+    expect(res3.headers.getSetCookie()).toEqual(
+      setCookies.map(
+        (setCookie) => `${setCookie.split("=")[0]}=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT; HttpOnly`,
+      ),
+    )
+  })
   test("should convert to date if store returns session.cookies.expires as string", async () => {
     const store = {
       get: async (id: string) => {